@@ -14,6 +14,10 @@ module.exports = {
     project: path.resolve(__dirname, "tsconfig.json"),
   },
   plugins: ["@typescript-eslint", "import-x", "eslint-plugin-tsdoc"],
+  settings: {
+    // Built into the Bun runtime, so there is no package to resolve
+    "import-x/core-modules": ["bun:sqlite", "bun:test"],
+  },
   ignorePatterns: ["dist/**", ".turbo/**", "node_modules/**", "vitest.*"],
   rules: {
     "no-console": "off",
@@ -7,7 +7,7 @@ const commands = [
     },
     {
         name: 'start',
-        description: 'Start a new game (requires tip)',
+        description: 'Start a new game, optionally choosing a scenario, length and difficulty (guest, resident, condemned)',
     },
     {
         name: 'choose1',
@@ -25,13 +25,61 @@ const commands = [
         name: 'choose4',
         description: 'Choose option 4',
     },
+    {
+        name: 'act',
+        description: 'Type your own action, e.g. /act pry the TV off the wall',
+    },
+    {
+        name: 'abandon',
+        description: 'End your current game now (scored as a forfeit)',
+    },
+    {
+        name: 'difficulty',
+        description: 'Show the difficulty levels, or fix one for this round (admins only)',
+    },
+    {
+        name: 'scoring',
+        description: 'Show the scoring weights for this season, or switch version (admins only)',
+    },
+    {
+        name: 'freetext',
+        description: 'Show or switch free-text actions for this round',
+    },
     {
         name: 'status',
         description: 'Check your current game status',
     },
+    {
+        name: 'endings',
+        description: 'View your discovered endings',
+    },
+    {
+        name: 'achievements',
+        description: 'View your achievements',
+    },
+    {
+        name: 'scenarios',
+        description: 'List available scenario packs and stories',
+    },
+    {
+        name: 'usage',
+        description: 'View API usage and estimated cost (admins only)',
+    },
+    {
+        name: 'runlog',
+        description: 'Dump and verify a run log (admins only)',
+    },
+    {
+        name: 'images',
+        description: 'Show or switch scene images for this channel',
+    },
     {
         name: 'leaderboard',
-        description: 'View the current leaderboard',
+        description: 'View the leaderboard for a game length (default: standard), e.g. season:<name> for a past season or all for every space',
+    },
+    {
+        name: 'season',
+        description: 'Show the current and past seasons, or end the current one (admins only)',
     },
 ] as const satisfies PlainMessage<SlashCommand>[]
 
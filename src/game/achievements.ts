@@ -0,0 +1,262 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+    AchievementDefinition,
+    AchievementRule,
+    ActionRecord,
+    Difficulty,
+    EndingResult,
+    GameLength,
+    PlayerState,
+    RunMetric,
+    RunRule,
+} from './types';
+import { CONDITION_OPS, checkCondition, compare, validateConditions } from './conditions';
+import type { RunEvent } from './runlog';
+import { isRecord } from './validation';
+import { createPersistentMap } from './storage';
+
+export const RUN_METRICS: RunMetric[] = ['score', 'tip', 'turns', 'clues_found', 'items_held', 'status_effects', 'free_text_actions'];
+const RUN_FIELDS: RunRule['run'][] = ['scenario', 'length', 'difficulty', 'ending', 'tier'];
+
+/**
+ * Everything achievement rules can look at once a run is over
+ */
+export interface FinishedRun {
+    sessionId: string;
+    userId: string;
+    scenarioId: string;
+    length: GameLength;
+    difficulty: Difficulty;
+    tipAmount: bigint;
+    states: PlayerState[]; // State after every turn, the final state last
+    actions: ActionRecord[];
+    result: EndingResult;
+    won: boolean; // Whether the run won its round
+}
+
+/**
+ * Thrown when an achievement definition is malformed
+ */
+export class AchievementError extends Error {
+    constructor(
+        public readonly source: string,
+        public readonly issues: string[]
+    ) {
+        super(`Invalid achievement ${source}: ${issues.join('; ')}`);
+        this.name = 'AchievementError';
+    }
+}
+
+// Loaded achievement definitions, in file order
+const achievements = new Map<string, AchievementDefinition>(); // achievementId -> definition
+// Unlocks are written through to the store and read back on first use
+let unlocks: Map<string, Map<string, Date>> | null = null; // userId -> achievementId -> first unlocked
+
+function validateRule(issues: string[], field: string, rule: unknown): void {
+    if (!isRecord(rule)) {
+        issues.push(`${field} must be an object`);
+    } else if ('metric' in rule) {
+        if (!RUN_METRICS.includes(rule.metric as RunMetric) || !CONDITION_OPS.includes(rule.op as never) || typeof rule.value !== 'number') {
+            issues.push(`${field} must be { metric (${RUN_METRICS.join(', ')}), op, value }`);
+        }
+    } else if ('run' in rule) {
+        const values = Array.isArray(rule.is) ? rule.is : [rule.is];
+        if (!RUN_FIELDS.includes(rule.run as RunRule['run']) || values.length === 0 || !values.every(value => typeof value === 'string')) {
+            issues.push(`${field} must be { run (${RUN_FIELDS.join(', ')}), is: value or [values] }`);
+        }
+    } else if ('won' in rule) {
+        if (typeof rule.won !== 'boolean') issues.push(`${field}.won must be true or false`);
+    } else {
+        const { during, ...condition } = rule;
+        if (during !== undefined && during !== 'end' && during !== 'always' && during !== 'ever') {
+            issues.push(`${field}.during must be "end", "always" or "ever"`);
+        }
+        // Stat, item and clue rules share the condition forms used by stories and endings
+        const conditionIssues: string[] = [];
+        validateConditions(conditionIssues, field, [condition]);
+        issues.push(...conditionIssues.map(issue => issue.replace(`${field}[0]`, field)));
+    }
+}
+
+/**
+ * Validate a parsed achievement definition and return it typed, or throw AchievementError
+ */
+export function validateAchievement(value: unknown, source = 'achievement'): AchievementDefinition {
+    if (!isRecord(value)) {
+        throw new AchievementError(source, ['achievement must be a JSON object']);
+    }
+    const issues: string[] = [];
+    if (typeof value.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(value.id)) {
+        issues.push('id must be lowercase letters, digits and dashes');
+    }
+    for (const field of ['name', 'emoji', 'description']) {
+        if (typeof value[field] !== 'string' || value[field].trim() === '') {
+            issues.push(`${field} must be a non-empty string`);
+        }
+    }
+    if (!Array.isArray(value.rules) || value.rules.length === 0) {
+        issues.push('rules must be a non-empty array');
+    } else {
+        value.rules.forEach((rule: unknown, index: number) => validateRule(issues, `rules[${index}]`, rule));
+    }
+    for (const field of ['from', 'until']) {
+        if (value[field] !== undefined && (typeof value[field] !== 'string' || Number.isNaN(Date.parse(value[field])))) {
+            issues.push(`${field} must be an ISO date`);
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new AchievementError(source, issues);
+    }
+    return value as unknown as AchievementDefinition;
+}
+
+/**
+ * Load every *.json file of achievements (each an array of definitions) from a directory.
+ * Invalid definitions are reported and skipped.
+ */
+export function loadAchievements(dir = process.env.ACHIEVEMENT_DIR || 'achievements'): AchievementDefinition[] {
+    if (!existsSync(dir)) return [];
+    const loaded: AchievementDefinition[] = [];
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+        const path = join(dir, file);
+        let entries: unknown;
+        try {
+            entries = JSON.parse(readFileSync(path, 'utf8'));
+        } catch (error) {
+            console.error(`Skipping achievements file ${path}:`, error instanceof Error ? error.message : error);
+            continue;
+        }
+        if (!Array.isArray(entries)) {
+            console.error(`Skipping achievements file ${path}: must contain an array of achievements`);
+            continue;
+        }
+        entries.forEach((entry: unknown, index: number) => {
+            try {
+                const achievement = validateAchievement(entry, `${path}[${index}]`);
+                achievements.set(achievement.id, achievement);
+                loaded.push(achievement);
+            } catch (error) {
+                console.error('Skipping achievement:', error instanceof Error ? error.message : error);
+            }
+        });
+    }
+    return loaded;
+}
+
+/**
+ * List loaded achievements
+ */
+export function listAchievements(): AchievementDefinition[] {
+    return [...achievements.values()];
+}
+
+/**
+ * Check whether an achievement can be unlocked at the given time
+ */
+export function isAchievementAvailable(achievement: AchievementDefinition, at = new Date()): boolean {
+    if (achievement.from && at < new Date(achievement.from)) return false;
+    if (achievement.until && at > new Date(achievement.until)) return false;
+    return true;
+}
+
+/**
+ * Rebuild a finished run from its run log, or null when the log has no start or score.
+ * Forfeited runs unlock nothing, so they are null too.
+ */
+export function getFinishedRun(events: RunEvent[], won: boolean): FinishedRun | null {
+    const start = events.find(event => event.type === 'session_started');
+    const score = events.findLast(event => event.type === 'score');
+    if (start?.type !== 'session_started' || score?.type !== 'score') return null;
+    if (events.some(event => event.type === 'forfeit')) return null;
+    const states = events.flatMap(event => (event.type === 'state_changes' ? [event.after] : []));
+    return {
+        sessionId: start.sessionId,
+        userId: start.userId,
+        scenarioId: start.scenarioId,
+        length: start.length,
+        difficulty: start.difficulty,
+        tipAmount: BigInt(start.tipAmount),
+        states: states.length > 0 ? states : [start.state],
+        actions: events.flatMap(event => (event.type === 'action_chosen' ? [event.action] : [])),
+        result: score.result,
+        won,
+    };
+}
+
+function getMetric(run: FinishedRun, metric: RunMetric): number {
+    const final = run.states[run.states.length - 1];
+    switch (metric) {
+        case 'score': return run.result.final_score;
+        case 'tip': return Number(run.tipAmount);
+        case 'turns': return final.turn;
+        case 'clues_found': return final.clues.length;
+        case 'items_held': return final.inventory.length;
+        case 'status_effects': return new Set(run.states.flatMap(state => state.status_effects.map(active => active.id))).size;
+        case 'free_text_actions': return run.actions.filter(action => action.kind === 'free_text').length;
+    }
+}
+
+function getRunField(run: FinishedRun, field: RunRule['run']): string {
+    switch (field) {
+        case 'scenario': return run.scenarioId;
+        case 'length': return run.length;
+        case 'difficulty': return run.difficulty;
+        case 'ending': return run.result.ending_id;
+        case 'tier': return run.result.tier;
+    }
+}
+
+/**
+ * Check one achievement rule against a finished run
+ */
+export function checkRule(run: FinishedRun, rule: AchievementRule): boolean {
+    const final = run.states[run.states.length - 1];
+    if ('metric' in rule) return compare(getMetric(run, rule.metric), rule.op, rule.value);
+    if ('run' in rule) return (Array.isArray(rule.is) ? rule.is : [rule.is]).includes(getRunField(run, rule.run));
+    if ('won' in rule) return run.won === rule.won;
+    if ('stat' in rule && rule.during === 'always') return run.states.every(state => checkCondition(state, rule));
+    if ('stat' in rule && rule.during === 'ever') return run.states.some(state => checkCondition(state, rule));
+    return checkCondition(final, rule);
+}
+
+/**
+ * Get every available achievement whose rules all hold for a finished run
+ */
+export function evaluateAchievements(run: FinishedRun, at = new Date()): AchievementDefinition[] {
+    return listAchievements().filter(
+        achievement => isAchievementAvailable(achievement, at) && achievement.rules.every(rule => checkRule(run, rule))
+    );
+}
+
+function getUnlocks(): Map<string, Map<string, Date>> {
+    if (!unlocks) {
+        unlocks = createPersistentMap<Map<string, Date>>('achievement_unlocks');
+    }
+    return unlocks;
+}
+
+/**
+ * Evaluate a finished run and record the achievements it unlocks for the first time.
+ * Returns only the new unlocks, for announcing.
+ */
+export function recordAchievements(run: FinishedRun): AchievementDefinition[] {
+    const unlocks = getUnlocks();
+    const unlocked = unlocks.get(run.userId) ?? new Map<string, Date>();
+    const newUnlocks = evaluateAchievements(run).filter(achievement => !unlocked.has(achievement.id));
+    if (newUnlocks.length === 0) return [];
+    const at = new Date();
+    for (const achievement of newUnlocks) {
+        unlocked.set(achievement.id, at);
+    }
+    unlocks.set(run.userId, unlocked);
+    return newUnlocks;
+}
+
+/**
+ * Get the achievements a player has unlocked, as `achievementId -> first unlocked`
+ */
+export function getUnlockedAchievements(userId: string): Map<string, Date> {
+    return getUnlocks().get(userId) ?? new Map<string, Date>();
+}
@@ -0,0 +1,114 @@
+import type { ActionRecord, ScenarioPack } from './types';
+import { STAT_KEYS } from './scenario';
+
+export const FREE_TEXT_MIN_LENGTH = 3;
+export const FREE_TEXT_MAX_LENGTH = Number(process.env.FREE_TEXT_MAX_LENGTH ?? 120);
+
+// Default for new rounds; admins can switch it per round with /freetext
+export const FREE_TEXT_DEFAULT = process.env.FREE_TEXT_ACTIONS !== 'off';
+
+// Extra words rejected before the provider's moderation check, e.g. FREE_TEXT_BLOCKLIST=word1,word2
+const blocklist = (process.env.FREE_TEXT_BLOCKLIST ?? '')
+    .split(',')
+    .map(word => word.trim().toLowerCase())
+    .filter(Boolean);
+
+// Phrases that address the narrator or the rules instead of describing what the character does
+const INJECTION_PATTERNS: RegExp[] = [
+    /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|rules?|prompts?|above|previous|prior)\b/i,
+    /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+    /\byou are (now|no longer)\b|\b(pretend|act) (to be|as) (the )?(narrator|gm|game master|ai|assistant|model)\b/i,
+    /\b(jailbreak|prompt injection|new instructions?)\b/i,
+    /\b(state_changes|proposed_score|ending_id|ending_title|scene_text|json)\b/i,
+    /\b(my|final|proposed) score\b|\btier\b|\bturns? (left|remaining)\b|\b(win|end) the (game|round)\b/i,
+];
+
+/**
+ * Thrown when a free-text action is rejected. The reason is safe to show to the player.
+ */
+export class FreeTextActionError extends Error {
+    constructor(public readonly reason: string) {
+        super(`Free-text action rejected: ${reason}`);
+        this.name = 'FreeTextActionError';
+    }
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Normalize typed text: fold look-alike characters, drop control and zero-width characters,
+ * strip markup and double quotes that could fake prompt structure, and collapse whitespace
+ */
+export function normalizeFreeText(raw: string): string {
+    return raw
+        .normalize('NFKC')
+        .replace(/[\p{Cc}\p{Cf}]/gu, ' ')
+        .replace(/[`<>{}[\]*#|\\]/g, '')
+        .replace(/["“”]/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^'+|'+$/g, '')
+        .trim();
+}
+
+/**
+ * Find the first sign of an attempt to talk to the narrator or change the game's numbers.
+ * Naming a stat next to a number, or asking to set/raise one, counts as manipulation.
+ */
+export function findInjection(text: string, scenario: ScenarioPack): string | null {
+    for (const pattern of INJECTION_PATTERNS) {
+        if (pattern.test(text)) {
+            return 'actions must describe what you do in the story, not give instructions to the narrator';
+        }
+    }
+
+    const statNames = STAT_KEYS.flatMap(key => [key, key.replace(/_/g, ' '), scenario.stats[key].label]).map(escapeRegExp);
+    const stat = `(${statNames.join('|')})`;
+    const manipulation = new RegExp(
+        [
+            `\\b(set|change|raise|increase|boost|max|maximi[sz]e|restore)\\s+(my |the |your )?${stat}\\b`,
+            `\\b${stat}\\s*(to|=|:|\\+|-)?\\s*[+-]?\\d`,
+            `\\d+\\s+(points? of |more )?${stat}\\b`,
+        ].join('|'),
+        'i'
+    );
+    if (manipulation.test(text)) {
+        return 'actions cannot set or change stats directly';
+    }
+    return null;
+}
+
+/**
+ * Check a typed action against the length limits, the local blocklist and the injection
+ * filters, returning the normalized text or throwing FreeTextActionError
+ */
+export function screenFreeTextAction(raw: string, scenario: ScenarioPack): string {
+    const text = normalizeFreeText(raw);
+    if (text.length < FREE_TEXT_MIN_LENGTH) {
+        throw new FreeTextActionError(`describe your action in at least ${FREE_TEXT_MIN_LENGTH} characters`);
+    }
+    if (text.length > FREE_TEXT_MAX_LENGTH) {
+        throw new FreeTextActionError(`keep it under ${FREE_TEXT_MAX_LENGTH} characters (yours is ${text.length})`);
+    }
+
+    const lower = text.toLowerCase();
+    if (blocklist.some(word => lower.includes(word))) {
+        throw new FreeTextActionError('that action is not allowed');
+    }
+
+    const injection = findInjection(text, scenario);
+    if (injection) {
+        throw new FreeTextActionError(injection);
+    }
+    return text;
+}
+
+/**
+ * Render an action for a prompt. Typed actions are quoted and marked so the model treats
+ * them as something the character attempts, never as instructions.
+ */
+export function formatActionForPrompt(action: ActionRecord): string {
+    return action.kind === 'free_text' ? `[typed] "${action.text}"` : action.text;
+}
@@ -0,0 +1,14 @@
+// Users allowed to run admin commands, e.g. ADMIN_USER_IDS=0xabc...,0xdef...
+const adminIds = new Set(
+    (process.env.ADMIN_USER_IDS ?? '')
+        .split(',')
+        .map(id => id.trim().toLowerCase())
+        .filter(Boolean)
+);
+
+/**
+ * Check whether a user may run admin commands
+ */
+export function isAdmin(userId: string): boolean {
+    return adminIds.has(userId.toLowerCase());
+}
@@ -0,0 +1,88 @@
+import type { Condition, PlayerState, ScenarioPack, StatCondition } from './types';
+import { STAT_KEYS } from './scenario';
+
+export const CONDITION_OPS: StatCondition['op'][] = ['<', '<=', '>', '>=', '==', '!='];
+
+/**
+ * Compare a value with a condition's operator
+ */
+export function compare(current: number, op: StatCondition['op'], value: number): boolean {
+    switch (op) {
+        case '<': return current < value;
+        case '<=': return current <= value;
+        case '>': return current > value;
+        case '>=': return current >= value;
+        case '==': return current === value;
+        case '!=': return current !== value;
+    }
+}
+
+/**
+ * Check a condition against the player state
+ */
+export function checkCondition(state: PlayerState, condition: Condition): boolean {
+    if ('item' in condition) {
+        return state.inventory.includes(condition.item) === (condition.held ?? true);
+    }
+    if ('clue' in condition) {
+        return state.clues.includes(condition.clue) === (condition.found ?? true);
+    }
+    return compare(state[condition.stat], condition.op, condition.value);
+}
+
+/**
+ * Check that every condition holds (an empty list always holds)
+ */
+export function checkConditions(state: PlayerState, conditions: Condition[] = []): boolean {
+    return conditions.every(condition => checkCondition(state, condition));
+}
+
+/**
+ * Check whether a (possibly unvalidated) conditions list always holds: absent or empty
+ */
+export function isUnconditional(conditions: unknown): boolean {
+    return conditions === undefined || (Array.isArray(conditions) && conditions.length === 0);
+}
+
+/**
+ * Validate a parsed list of conditions, appending any problems to issues.
+ * Item and clue ids are checked against the scenario's vocabulary when one is given.
+ */
+export function validateConditions(
+    issues: string[],
+    field: string,
+    value: unknown,
+    vocabulary?: Pick<ScenarioPack, 'items' | 'clues'>
+): void {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+        issues.push(`${field} must be an array`);
+        return;
+    }
+    value.forEach((condition: unknown, index) => {
+        const entry = `${field}[${index}]`;
+        if (typeof condition !== 'object' || condition === null) {
+            issues.push(`${entry} must be an object`);
+        } else if ('item' in condition) {
+            const { item, held } = condition as { item: unknown; held?: unknown };
+            if (typeof item !== 'string' || (held !== undefined && typeof held !== 'boolean')) {
+                issues.push(`${entry} must be { item, held? }`);
+            } else if (vocabulary && !vocabulary.items.some(known => known.id === item)) {
+                issues.push(`${entry}.item "${item}" is not a known item`);
+            }
+        } else if ('clue' in condition) {
+            const { clue, found } = condition as { clue: unknown; found?: unknown };
+            if (typeof clue !== 'string' || (found !== undefined && typeof found !== 'boolean')) {
+                issues.push(`${entry} must be { clue, found? }`);
+            } else if (vocabulary && !vocabulary.clues.some(known => known.id === clue)) {
+                issues.push(`${entry}.clue "${clue}" is not a known clue`);
+            }
+        } else if (
+            !STAT_KEYS.includes((condition as StatCondition).stat) ||
+            !CONDITION_OPS.includes((condition as StatCondition).op) ||
+            typeof (condition as StatCondition).value !== 'number'
+        ) {
+            issues.push(`${entry} must be { stat, op (${CONDITION_OPS.join(' ')}), value }, { item, held? } or { clue, found? }`);
+        }
+    });
+}
@@ -0,0 +1,99 @@
+import type { Difficulty, ScenarioPack, StatDefinition, StatKey } from './types';
+import { getDecayRate, getMaxGain } from './state';
+
+export interface DifficultyDefinition {
+    label: string;
+    description: string;
+    timeBudget: number; // Multiplier on the time_remaining budget (max and initial)
+    initialShift: Partial<Record<StatKey, number>>; // Starting value moved by this share of the stat's range
+    decay: Partial<Record<StatKey, number>>; // Per-turn drift on top of the pack's own
+    gainShare: number; // Multiplier on how much a stat may rise in one turn
+    scoreMultiplier: number;
+    prompt: string; // How harsh the narrator should be with consequences
+}
+
+export const DIFFICULTIES: Record<Difficulty, DifficultyDefinition> = {
+    guest: {
+        label: 'Guest',
+        description: 'More time, a slower clock and gentler consequences',
+        timeBudget: 1.25,
+        initialShift: {},
+        decay: { time_remaining: -0.25 },
+        gainShare: 1.5,
+        scoreMultiplier: 0.8,
+        prompt: 'Be forgiving: risky choices cost little, and mistakes can usually be recovered from. Favour small losses and let careful play be rewarded generously.',
+    },
+    resident: {
+        label: 'Resident',
+        description: 'The game as designed',
+        timeBudget: 1,
+        initialShift: {},
+        decay: {},
+        gainShare: 1,
+        scoreMultiplier: 1,
+        prompt: 'Keep consequences fair: good choices help, poor ones cost something real.',
+    },
+    condemned: {
+        label: 'Condemned',
+        description: 'Less time, fraying sanity, distrustful captors and smaller gains',
+        timeBudget: 0.85,
+        initialShift: { sanity: -0.2, trust: -0.15 },
+        decay: { sanity: 2 },
+        gainShare: 0.6,
+        scoreMultiplier: 1.3,
+        prompt: 'Be harsh: every mistake costs sanity, trust or time, help is rare and never free, and good outcomes must be earned. Never let a careless choice go unpunished.',
+    },
+};
+
+/**
+ * Parse a difficulty name (case-insensitive), or undefined when it is not one
+ */
+export function parseDifficulty(value: string | undefined): Difficulty | undefined {
+    const name = value?.trim().toLowerCase();
+    return name && name in DIFFICULTIES ? (name as Difficulty) : undefined;
+}
+
+// Difficulty for tip-started games and /start without a difficulty
+export const DEFAULT_DIFFICULTY: Difficulty = parseDifficulty(process.env.DEFAULT_DIFFICULTY) ?? 'resident';
+
+/**
+ * Derive the pack a run of the given difficulty is played with: starting values, per-turn
+ * decay and gain caps are folded into the stat definitions, so state updates and replays
+ * only ever need the derived pack.
+ */
+export function withDifficulty(scenario: ScenarioPack, difficulty: Difficulty): ScenarioPack {
+    if (difficulty === 'resident') return scenario;
+    const definition = DIFFICULTIES[difficulty];
+    const stats = { ...scenario.stats };
+
+    for (const key of Object.keys(stats) as StatKey[]) {
+        const stat: StatDefinition = { ...stats[key] };
+        const range = stat.max - stat.min;
+        if (key === 'time_remaining') {
+            const scale = (value: number) => stat.min + Math.max(1, Math.round((value - stat.min) * definition.timeBudget));
+            stat.max = scale(stat.max);
+            stat.initial = scale(stat.initial);
+        }
+        const shift = definition.initialShift[key];
+        if (shift) {
+            stat.initial = Math.max(stat.min, Math.min(stat.max, stat.initial + Math.round(range * shift)));
+        }
+        const decay = definition.decay[key];
+        if (decay) {
+            stat.decay = Math.max(0, getDecayRate(scenario, key) + decay);
+        }
+        if (definition.gainShare !== 1) {
+            stat.max_gain = Math.max(1, Math.round(getMaxGain(scenario, key) * definition.gainShare));
+        }
+        stats[key] = stat;
+    }
+    return { ...scenario, stats };
+}
+
+/**
+ * Format a difficulty for messages, e.g. "Condemned (×1.3 score)"
+ */
+export function formatDifficulty(difficulty: Difficulty): string {
+    const { label, scoreMultiplier } = DIFFICULTIES[difficulty];
+    return `${label} (×${scoreMultiplier} score)`;
+}
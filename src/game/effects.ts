@@ -0,0 +1,110 @@
+import type { PlayerState, ScenarioPack, StateAdjustment, StateChanges, StatKey, StatusEffectDefinition } from './types';
+import { MAX_CHOICES } from './validation';
+
+export const EFFECT_CHANGE_KEYS = ['effects_added', 'effects_removed'] as const;
+
+export type EffectChangeKey = (typeof EFFECT_CHANGE_KEYS)[number];
+
+/**
+ * Check whether a state_changes key carries status effect ids rather than a stat value
+ */
+export function isEffectChangeKey(key: string): key is EffectChangeKey {
+    return (EFFECT_CHANGE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Find a status effect in the scenario's vocabulary
+ */
+export function findEffect(scenario: ScenarioPack, id: string): StatusEffectDefinition | undefined {
+    return scenario.status_effects.find(effect => effect.id === id);
+}
+
+/**
+ * List the status effect ids in a change that are not in the scenario's vocabulary
+ */
+export function findUnknownEffects(changes: StateChanges, scenario: ScenarioPack): string[] {
+    return [...(changes.effects_added ?? []), ...(changes.effects_removed ?? [])].filter(id => !findEffect(scenario, id));
+}
+
+/**
+ * Get the definitions of the status effects a player is under
+ */
+export function getActiveEffects(state: PlayerState, scenario: ScenarioPack): StatusEffectDefinition[] {
+    return state.status_effects.map(active => findEffect(scenario, active.id)).filter(effect => effect !== undefined);
+}
+
+/**
+ * Apply status effects that are added or removed. Unknown ids and removals of effects the
+ * player is not under are skipped and appended to adjustments. Adding an active effect
+ * starts its duration again.
+ */
+export function applyEffectChanges(
+    state: PlayerState,
+    changes: Pick<StateChanges, EffectChangeKey>,
+    scenario: ScenarioPack,
+    adjustments: StateAdjustment[] = []
+): PlayerState {
+    const reject = (key: EffectChangeKey, id: string, reason: string) =>
+        adjustments.push({ key, requested: id, applied: null, kind: 'rejected', reason });
+
+    let statusEffects = [...state.status_effects];
+    for (const id of changes.effects_removed ?? []) {
+        if (!statusEffects.some(active => active.id === id)) reject('effects_removed', id, 'not active');
+        else statusEffects = statusEffects.filter(active => active.id !== id);
+    }
+    for (const id of changes.effects_added ?? []) {
+        const effect = findEffect(scenario, id);
+        if (!effect) {
+            reject('effects_added', id, 'unknown status effect');
+            continue;
+        }
+        statusEffects = [...statusEffects.filter(active => active.id !== id), { id, turns_left: effect.duration }];
+    }
+    return { ...state, status_effects: statusEffects };
+}
+
+/**
+ * Run one turn of the active status effects: apply their stat modifiers, clamped to the
+ * scenario's ranges, and count their durations down, dropping the ones that run out
+ */
+export function tickEffects(state: PlayerState, scenario: ScenarioPack): PlayerState {
+    const newState = { ...state };
+    for (const effect of getActiveEffects(state, scenario)) {
+        for (const [key, delta] of Object.entries(effect.modifiers ?? {}) as [StatKey, number][]) {
+            const { min, max } = scenario.stats[key];
+            newState[key] = Math.max(min, Math.min(max, newState[key] + delta));
+        }
+    }
+    newState.status_effects = state.status_effects
+        .map(active => ({ ...active, turns_left: active.turns_left - 1 }))
+        .filter(active => active.turns_left > 0);
+    return newState;
+}
+
+/**
+ * Adjust a scene's choices to the player's status effects: choices mentioning a hidden word
+ * are dropped and the effects' extra choices are added, keeping at most MAX_CHOICES.
+ * The original choices are kept if the effects would leave none.
+ */
+export function applyEffectChoices(choices: string[], state: PlayerState, scenario: ScenarioPack): string[] {
+    const effects = getActiveEffects(state, scenario);
+    if (effects.length === 0) return choices;
+    const hidden = effects.flatMap(effect => effect.hides_choices ?? []).map(word => word.toLowerCase());
+    const kept = choices.filter(choice => !hidden.some(word => choice.toLowerCase().includes(word)));
+    const added = [...new Set(effects.flatMap(effect => effect.adds_choices ?? []))]
+        .filter(choice => !kept.includes(choice))
+        .slice(0, MAX_CHOICES);
+    const adjusted = [...kept.slice(0, MAX_CHOICES - added.length), ...added];
+    return adjusted.length > 0 ? adjusted : choices;
+}
+
+/**
+ * Format active status effects for display, e.g. "💊 Drugged (2 turns)"
+ */
+export function formatEffects(state: PlayerState, scenario: ScenarioPack): string {
+    const effects = state.status_effects.flatMap(active => {
+        const effect = findEffect(scenario, active.id);
+        return effect ? [`${effect.emoji} ${effect.name} (${active.turns_left} turn${active.turns_left === 1 ? '' : 's'})`] : [];
+    });
+    return effects.length > 0 ? effects.join(', ') : 'none';
+}
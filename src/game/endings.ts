@@ -0,0 +1,62 @@
+import type { PlayerState, ScenarioPack, EndingDefinition, ForfeitReason, GPTEndingResponse } from './types';
+import { checkConditions, isUnconditional } from './conditions';
+
+/**
+ * Find a catalog entry by id
+ */
+export function findEnding(scenario: ScenarioPack, endingId: string): EndingDefinition | undefined {
+    return scenario.endings.find(ending => ending.id === endingId);
+}
+
+/**
+ * Get the catalog endings unlocked by a final state, most specific first
+ */
+export function getEligibleEndings(scenario: ScenarioPack, finalState: PlayerState): EndingDefinition[] {
+    return scenario.endings.filter(ending => checkConditions(finalState, ending.conditions));
+}
+
+/**
+ * Map a generated ending onto the scenario's catalog. An ending the final state has unlocked
+ * keeps its id; anything else (an invented id, or a catalog ending the run did not earn) is
+ * mapped to the most specific eligible entry. Trusted endings (authored story nodes) are
+ * only checked for catalog membership. The title always comes from the catalog; the text is kept.
+ */
+export function canonicalizeEnding(
+    scenario: ScenarioPack,
+    finalState: PlayerState,
+    ending: GPTEndingResponse,
+    trusted = false
+): GPTEndingResponse {
+    const eligible = getEligibleEndings(scenario, finalState);
+    let entry = trusted ? findEnding(scenario, ending.ending_id) : eligible.find(item => item.id === ending.ending_id);
+
+    if (!entry) {
+        // Validation guarantees an unconditional entry, so eligible is never empty
+        entry = eligible[0] ?? scenario.endings[scenario.endings.length - 1];
+        console.warn(`Mapped ending ${ending.ending_id} onto catalog ending ${entry.id}`);
+    }
+
+    return {
+        ...ending,
+        ending_id: entry.id,
+        ending_title: entry.title,
+    };
+}
+
+/**
+ * The ending of a forfeited run: the scenario's catch-all (unconditional) catalog ending,
+ * e.g. "Your Number Was Called" in Room 616
+ */
+export function createForfeitEnding(scenario: ScenarioPack, reason: ForfeitReason): GPTEndingResponse {
+    // Validation guarantees an unconditional entry
+    const entry = scenario.endings.findLast(ending => isUnconditional(ending.conditions)) ?? scenario.endings[scenario.endings.length - 1];
+    const opening = reason === 'idle'
+        ? 'You stopped answering. The speaker crackles your name once, then your number.'
+        : 'You walk away from the choice in front of you, and the building notices.';
+    return {
+        ending_id: entry.id,
+        ending_title: entry.title,
+        ending_text: `${opening} ${entry.summary}`,
+        proposed_score: 0,
+    };
+}
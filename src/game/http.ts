@@ -0,0 +1,169 @@
+export interface RetryOptions {
+    timeoutMs: number; // Per-attempt timeout
+    maxRetries: number; // Retries after the first attempt
+    baseDelayMs: number; // First backoff delay, doubled each retry
+    maxDelayMs: number; // Upper bound for any single wait, including Retry-After
+}
+
+export interface CircuitOptions {
+    failureThreshold: number; // Consecutive failed requests before the circuit opens
+    cooldownMs: number; // How long the circuit stays open before a trial request
+}
+
+/**
+ * Thrown when an upstream request fails after all retries
+ */
+export class UpstreamError extends Error {
+    constructor(
+        message: string,
+        public readonly status?: number,
+        public readonly retryable = true
+    ) {
+        super(message);
+        this.name = 'UpstreamError';
+    }
+}
+
+/**
+ * Thrown without making a request while the circuit for an upstream is open
+ */
+export class CircuitOpenError extends UpstreamError {
+    constructor(upstream: string, public readonly retryAt: Date) {
+        super(`Circuit open for ${upstream} until ${retryAt.toISOString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+interface CircuitState {
+    failures: number;
+    openUntil: number;
+}
+
+// Circuit state per upstream, shared by every session in the process
+const circuits = new Map<string, CircuitState>();
+
+/**
+ * Read retry settings from environment variables
+ */
+export function retryOptionsFromEnv(): RetryOptions {
+    return {
+        timeoutMs: Number(process.env.OPENAI_TIMEOUT_MS ?? 30000),
+        maxRetries: Number(process.env.OPENAI_MAX_RETRIES ?? 3),
+        baseDelayMs: Number(process.env.OPENAI_RETRY_BASE_MS ?? 500),
+        maxDelayMs: Number(process.env.OPENAI_RETRY_MAX_MS ?? 20000),
+    };
+}
+
+/**
+ * Read circuit breaker settings from environment variables
+ */
+export function circuitOptionsFromEnv(): CircuitOptions {
+    return {
+        failureThreshold: Number(process.env.OPENAI_CIRCUIT_THRESHOLD ?? 5),
+        cooldownMs: Number(process.env.OPENAI_CIRCUIT_COOLDOWN_MS ?? 60000),
+    };
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function getCircuit(upstream: string): CircuitState {
+    let circuit = circuits.get(upstream);
+    if (!circuit) {
+        circuit = { failures: 0, openUntil: 0 };
+        circuits.set(upstream, circuit);
+    }
+    return circuit;
+}
+
+/**
+ * Check whether requests to an upstream are currently short-circuited
+ */
+export function isCircuitOpen(upstream: string): boolean {
+    return getCircuit(upstream).openUntil > Date.now();
+}
+
+/**
+ * Perform a request with a per-attempt timeout, exponential backoff that honors
+ * Retry-After, and a circuit breaker keyed by upstream.
+ * Resolves only with a successful response; non-retryable statuses fail immediately.
+ */
+export async function fetchWithRetry(
+    upstream: string,
+    url: string,
+    init: RequestInit,
+    retry: RetryOptions = retryOptionsFromEnv(),
+    circuitOptions: CircuitOptions = circuitOptionsFromEnv()
+): Promise<Response> {
+    const circuit = getCircuit(upstream);
+    if (circuit.openUntil > Date.now()) {
+        throw new CircuitOpenError(upstream, new Date(circuit.openUntil));
+    }
+
+    let lastError: UpstreamError = new UpstreamError(`Request to ${upstream} failed`);
+
+    for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+        let retryAfterMs: number | null = null;
+        try {
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(retry.timeoutMs) });
+            if (response.ok) {
+                circuit.failures = 0;
+                circuit.openUntil = 0;
+                return response;
+            }
+
+            const body = await response.text();
+            lastError = new UpstreamError(
+                `${upstream} error: ${response.status} - ${body}`,
+                response.status,
+                isRetryableStatus(response.status)
+            );
+            if (!lastError.retryable) {
+                // Client errors (bad request, auth) will not improve with retries and do not trip the circuit
+                throw lastError;
+            }
+            retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+        } catch (error) {
+            if (error instanceof UpstreamError && !error.retryable) throw error;
+            if (!(error instanceof UpstreamError)) {
+                const reason = error instanceof Error && error.name === 'TimeoutError'
+                    ? `timed out after ${retry.timeoutMs}ms`
+                    : error instanceof Error ? error.message : String(error);
+                lastError = new UpstreamError(`${upstream} request ${reason}`);
+            }
+        }
+
+        if (attempt < retry.maxRetries) {
+            const backoff = retry.baseDelayMs * 2 ** attempt;
+            const jitter = Math.random() * retry.baseDelayMs;
+            const delay = Math.min(retry.maxDelayMs, retryAfterMs ?? backoff + jitter);
+            console.warn(`${lastError.message} (attempt ${attempt + 1}/${retry.maxRetries + 1}), retrying in ${Math.round(delay)}ms`);
+            await sleep(delay);
+        }
+    }
+
+    circuit.failures += 1;
+    if (circuit.failures >= circuitOptions.failureThreshold) {
+        circuit.openUntil = Date.now() + circuitOptions.cooldownMs;
+        console.error(`Circuit opened for ${upstream} after ${circuit.failures} consecutive failures`);
+    }
+    throw lastError;
+}
@@ -0,0 +1,146 @@
+import { createHash } from 'node:crypto';
+import type { ActionRecord, ScenarioPack } from './types';
+import type { UsageContext } from './usage';
+import type { ImageStore, StoredImage } from './imagestore';
+import { createOpenAIImageProvider, openAIOptionsFromEnv } from './gpt';
+import { createPersistentMap } from './storage';
+
+export interface ImageRequest {
+    scenario: ScenarioPack;
+    sceneText: string;
+    turn: number;
+    actionHistory: ActionRecord[];
+    usage?: UsageContext;
+}
+
+/**
+ * Image model backend. Generation failures throw; callers decide whether images matter.
+ */
+export interface ImageProvider {
+    name: string;
+    model: string; // Part of the cache key, so switching models never serves stale images
+    generateImage(prompt: string, usage?: UsageContext): Promise<StoredImage>;
+}
+
+/**
+ * Stored scene images, generated on demand and cached by prompt
+ */
+export interface SceneImages {
+    /** URL of the image for a scene, generating it unless a cached one exists or generation is not allowed */
+    getImageUrl(request: ImageRequest, allowGeneration?: boolean): Promise<string | null>;
+    /** Read a stored image for the image route; null for unknown or malformed keys */
+    getStoredImage(key: string): Promise<StoredImage | null>;
+}
+
+// Keys are content hashes, so the image route never touches arbitrary paths
+export const IMAGE_KEY_PATTERN = /^[a-f0-9]{64}\.(png|jpg|webp)$/;
+
+// Per-channel switch set by /images, kept in the store and loaded on first use; channels without an entry use IMAGES_ENABLED
+let channelImages: Map<string, boolean> | null = null; // channelId -> images enabled
+const imagesEnabledByDefault = process.env.IMAGES_ENABLED !== 'off';
+
+/**
+ * Create the image provider selected by IMAGE_PROVIDER (openai | none).
+ * Defaults to none for the offline narrative provider, which must not need the network.
+ */
+export function createImageProvider(
+    kind = process.env.IMAGE_PROVIDER || (process.env.NARRATIVE_PROVIDER === 'offline' ? 'none' : 'openai')
+): ImageProvider | null {
+    switch (kind) {
+        case 'openai':
+            return createOpenAIImageProvider(openAIOptionsFromEnv());
+        case 'none':
+            return null;
+        default:
+            throw new Error(`Unknown IMAGE_PROVIDER "${kind}". Expected "openai" or "none".`);
+    }
+}
+
+/**
+ * Build the image prompt for a scene. The first scene uses the scenario's fixed opening
+ * prompt, which every player shares and is therefore served from the cache after one generation.
+ */
+export function buildImagePrompt({ scenario, sceneText, turn, actionHistory }: ImageRequest): string {
+    if (turn === 1) {
+        return scenario.opening_image_prompt;
+    }
+    if (actionHistory.length > 0) {
+        // Add context from recent actions
+        const recentContext = actionHistory.slice(-3).map(action => action.text).join(', ');
+        return `${scenario.image_style} Scene: ${sceneText}. Context: ${recentContext}.`;
+    }
+    return `A cinematic thriller scene: ${sceneText}`;
+}
+
+function getChannelImages(): Map<string, boolean> {
+    channelImages ??= createPersistentMap<boolean>('channel_images');
+    return channelImages;
+}
+
+/**
+ * Turn scene images on or off for a channel
+ */
+export function setChannelImagesEnabled(channelId: string, enabled: boolean): void {
+    getChannelImages().set(channelId, enabled);
+}
+
+/**
+ * Check whether a channel gets scene images
+ */
+export function areChannelImagesEnabled(channelId: string): boolean {
+    return getChannelImages().get(channelId) ?? imagesEnabledByDefault;
+}
+
+/**
+ * Create the scene image service. Generated images are written to the store and served
+ * from `${publicBaseUrl}/images/<key>`, so channel history keeps working after the model's
+ * temporary URL expires.
+ */
+export function createSceneImages(
+    provider: ImageProvider | null,
+    store: ImageStore,
+    publicBaseUrl: string
+): SceneImages {
+    const pending = new Map<string, Promise<string | null>>(); // key -> in-flight generation
+    const urlFor = (key: string) => `${publicBaseUrl.replace(/\/+$/, '')}/images/${key}`;
+
+    async function generate(key: string, prompt: string, usage?: UsageContext): Promise<string | null> {
+        try {
+            const image = await provider!.generateImage(prompt, usage);
+            await store.put(key, image);
+            return urlFor(key);
+        } catch (error) {
+            console.error('Error generating scene image:', error instanceof Error ? error.message : error);
+            return null; // Don't break the game if image generation fails
+        }
+    }
+
+    return {
+        async getImageUrl(request, allowGeneration = true) {
+            if (!provider) return null;
+            const prompt = buildImagePrompt(request);
+            const key = `${createHash('sha256').update(`${provider.model}\n${prompt}`).digest('hex')}.png`;
+
+            try {
+                if (await store.has(key)) return urlFor(key);
+            } catch (error) {
+                console.error('Image store lookup failed:', error instanceof Error ? error.message : error);
+                return null;
+            }
+            if (!allowGeneration) return null;
+
+            // Players starting together share one generation of the same prompt
+            let url = pending.get(key);
+            if (!url) {
+                url = generate(key, prompt, request.usage).finally(() => pending.delete(key));
+                pending.set(key, url);
+            }
+            return url;
+        },
+
+        async getStoredImage(key) {
+            if (!IMAGE_KEY_PATTERN.test(key)) return null;
+            return store.get(key);
+        },
+    };
+}
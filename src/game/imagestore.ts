@@ -0,0 +1,124 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { S3Client } from 'bun';
+
+export interface StoredImage {
+    data: Uint8Array;
+    contentType: string;
+}
+
+/**
+ * Durable storage for generated scene images, addressed by cache key (e.g. "<sha256>.png")
+ */
+export interface ImageStore {
+    name: string;
+    has(key: string): Promise<boolean>;
+    get(key: string): Promise<StoredImage | null>;
+    put(key: string, image: StoredImage): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    webp: 'image/webp',
+};
+
+/**
+ * Get the content type for a key from its extension
+ */
+export function contentTypeForKey(key: string): string {
+    return CONTENT_TYPES[key.split('.').pop() ?? ''] ?? 'application/octet-stream';
+}
+
+function isMissing(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Store images as files in a local directory
+ */
+export function createLocalImageStore(dir: string): ImageStore {
+    return {
+        name: `local (${dir})`,
+        has: async key => {
+            try {
+                return (await stat(join(dir, key))).isFile();
+            } catch (error) {
+                if (isMissing(error)) return false;
+                throw error;
+            }
+        },
+        get: async key => {
+            try {
+                return { data: await readFile(join(dir, key)), contentType: contentTypeForKey(key) };
+            } catch (error) {
+                if (isMissing(error)) return null;
+                throw error;
+            }
+        },
+        put: async (key, image) => {
+            await mkdir(dir, { recursive: true });
+            await writeFile(join(dir, key), image.data);
+        },
+    };
+}
+
+export interface S3ImageStoreOptions {
+    bucket: string;
+    endpoint?: string; // e.g. http://localhost:9000 for a local MinIO
+    region?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    prefix: string; // Key prefix inside the bucket
+}
+
+/**
+ * Store images in an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+ */
+export function createS3ImageStore(options: S3ImageStoreOptions): ImageStore {
+    const client = new S3Client({
+        bucket: options.bucket,
+        endpoint: options.endpoint,
+        region: options.region,
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+    });
+    const file = (key: string) => client.file(`${options.prefix}${key}`);
+
+    return {
+        name: `s3 (${options.endpoint ?? 'aws'}/${options.bucket})`,
+        has: key => file(key).exists(),
+        get: async key => {
+            const object = file(key);
+            if (!(await object.exists())) return null;
+            return { data: new Uint8Array(await object.arrayBuffer()), contentType: contentTypeForKey(key) };
+        },
+        put: async (key, image) => {
+            await file(key).write(image.data, { type: image.contentType });
+        },
+    };
+}
+
+/**
+ * Create the image store selected by IMAGE_STORE (local | s3)
+ */
+export function createImageStore(kind = process.env.IMAGE_STORE || 'local'): ImageStore {
+    switch (kind) {
+        case 'local':
+            return createLocalImageStore(process.env.IMAGE_DIR || 'data/images');
+        case 's3':
+            if (!process.env.S3_BUCKET) {
+                throw new Error('S3_BUCKET is required when IMAGE_STORE=s3');
+            }
+            return createS3ImageStore({
+                bucket: process.env.S3_BUCKET,
+                endpoint: process.env.S3_ENDPOINT,
+                region: process.env.S3_REGION,
+                accessKeyId: process.env.S3_ACCESS_KEY_ID,
+                secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+                prefix: process.env.S3_PREFIX ?? 'scene-images/',
+            });
+        default:
+            throw new Error(`Unknown IMAGE_STORE "${kind}". Expected "local" or "s3".`);
+    }
+}
@@ -0,0 +1,94 @@
+import type { ClueDefinition, ItemDefinition, PlayerState, ScenarioPack, StateAdjustment, StateChanges } from './types';
+
+export const INVENTORY_CHANGE_KEYS = ['items_gained', 'items_lost', 'clues_found'] as const;
+
+export type InventoryChangeKey = (typeof INVENTORY_CHANGE_KEYS)[number];
+
+/**
+ * Check whether a state_changes key carries item or clue ids rather than a stat value
+ */
+export function isInventoryChangeKey(key: string): key is InventoryChangeKey {
+    return (INVENTORY_CHANGE_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Find an item in the scenario's vocabulary
+ */
+export function findItem(scenario: ScenarioPack, id: string): ItemDefinition | undefined {
+    return scenario.items.find(item => item.id === id);
+}
+
+/**
+ * Find a clue in the scenario's vocabulary
+ */
+export function findClue(scenario: ScenarioPack, id: string): ClueDefinition | undefined {
+    return scenario.clues.find(clue => clue.id === id);
+}
+
+/**
+ * List the ids in a change that are not in the scenario's vocabulary
+ */
+export function findUnknownIds(changes: StateChanges, scenario: ScenarioPack): string[] {
+    const unknownItems = [...(changes.items_gained ?? []), ...(changes.items_lost ?? [])].filter(
+        id => !findItem(scenario, id)
+    );
+    const unknownClues = (changes.clues_found ?? []).filter(id => !findClue(scenario, id));
+    return [...unknownItems, ...unknownClues];
+}
+
+/**
+ * Apply item and clue changes. Ids outside the scenario's vocabulary, items lost that were
+ * not held and repeats are skipped and appended to adjustments.
+ * Items can be lost again; clues, once found, stay found.
+ */
+export function applyInventoryChanges(
+    state: PlayerState,
+    changes: Pick<StateChanges, InventoryChangeKey>,
+    scenario: ScenarioPack,
+    adjustments: StateAdjustment[] = []
+): PlayerState {
+    const reject = (key: InventoryChangeKey, id: string, reason: string) =>
+        adjustments.push({ key, requested: id, applied: null, kind: 'rejected', reason });
+
+    const inventory = [...state.inventory];
+    for (const id of changes.items_lost ?? []) {
+        const index = inventory.indexOf(id);
+        if (index === -1) reject('items_lost', id, 'not held');
+        else inventory.splice(index, 1);
+    }
+    for (const id of changes.items_gained ?? []) {
+        if (!findItem(scenario, id)) reject('items_gained', id, 'unknown item');
+        else if (inventory.includes(id)) reject('items_gained', id, 'already held');
+        else inventory.push(id);
+    }
+    const clues = [...state.clues];
+    for (const id of changes.clues_found ?? []) {
+        if (!findClue(scenario, id)) reject('clues_found', id, 'unknown clue');
+        else if (clues.includes(id)) reject('clues_found', id, 'already found');
+        else clues.push(id);
+    }
+    return { ...state, inventory, clues };
+}
+
+/**
+ * Total score bonus for the clues a player has found
+ */
+export function getCluePoints(state: PlayerState, scenario: ScenarioPack): number {
+    return state.clues.reduce((total, id) => total + (findClue(scenario, id)?.points ?? 0), 0);
+}
+
+/**
+ * Format held items for display, e.g. "🪪 Keycard 516, 🔩 Loose bolt"
+ */
+export function formatInventory(state: PlayerState, scenario: ScenarioPack): string {
+    const items = state.inventory.map(id => findItem(scenario, id)).filter(item => item !== undefined);
+    return items.length > 0 ? items.map(item => `${item.emoji} ${item.name}`).join(', ') : 'nothing';
+}
+
+/**
+ * Format found clues for display
+ */
+export function formatClues(state: PlayerState, scenario: ScenarioPack): string {
+    const clues = state.clues.map(id => findClue(scenario, id)).filter(clue => clue !== undefined);
+    return clues.length > 0 ? clues.map(clue => clue.name).join(', ') : 'none yet';
+}
@@ -0,0 +1,57 @@
+import type { GameLength, ScenarioPack } from './types';
+
+export interface GameLengthDefinition {
+    label: string;
+    turns: number | null; // null plays the scenario pack's own turn count
+}
+
+export const GAME_LENGTHS: Record<GameLength, GameLengthDefinition> = {
+    short: { label: 'Short', turns: 6 },
+    standard: { label: 'Standard', turns: null },
+    marathon: { label: 'Marathon', turns: 20 },
+};
+
+/**
+ * Parse a game length name (case-insensitive), or undefined when it is not one
+ */
+export function parseGameLength(value: string | undefined): GameLength | undefined {
+    const name = value?.trim().toLowerCase();
+    return name && name in GAME_LENGTHS ? (name as GameLength) : undefined;
+}
+
+// Length for tip-started games and /start without a length
+export const DEFAULT_GAME_LENGTH: GameLength = parseGameLength(process.env.DEFAULT_GAME_LENGTH) ?? 'standard';
+
+/**
+ * Number of turns a run of the given length lasts in a scenario
+ */
+export function getTurnCount(scenario: ScenarioPack, length: GameLength): number {
+    return GAME_LENGTHS[length].turns ?? scenario.turns;
+}
+
+/**
+ * Derive the pack a run of the given length is played with. Everything paced by the pack's
+ * turn count (prompt phases, safety rules, "Turn x/y") follows the new length, and the
+ * time budget is scaled with it so time_remaining runs out at the same relative pace.
+ */
+export function withGameLength(scenario: ScenarioPack, length: GameLength): ScenarioPack {
+    const turns = getTurnCount(scenario, length);
+    if (turns === scenario.turns) return scenario;
+    const time = scenario.stats.time_remaining;
+    const scale = (value: number) => time.min + Math.round(((value - time.min) * turns) / scenario.turns);
+    return {
+        ...scenario,
+        turns,
+        stats: {
+            ...scenario.stats,
+            time_remaining: { ...time, max: scale(time.max), initial: scale(time.initial) },
+        },
+    };
+}
+
+/**
+ * Format a length for messages, e.g. "Short (6 turns)"
+ */
+export function formatGameLength(scenario: ScenarioPack, length: GameLength): string {
+    return `${GAME_LENGTHS[length].label} (${getTurnCount(scenario, length)} turns)`;
+}
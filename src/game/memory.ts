@@ -0,0 +1,81 @@
+import type { ActionRecord, GPTSceneResponse, SceneRecord, StoryFacts, StoryMemory } from './types';
+
+// Scenes kept per session; older scenes live on only in the summary
+export const MEMORY_MAX_SCENES = 50;
+// Facts kept per category, newest last
+export const MEMORY_MAX_FACTS = 25;
+// Refresh the rolling summary once this many turns have not been summarized
+export const SUMMARY_INTERVAL = Number(process.env.MEMORY_SUMMARY_INTERVAL ?? 3);
+// Prompt tokens the memory section of a scene or ending prompt may use
+export const MEMORY_TOKEN_BUDGET = Number(process.env.MEMORY_TOKEN_BUDGET ?? 900);
+
+export const FACT_CATEGORIES: (keyof StoryFacts)[] = ['characters', 'items', 'clues'];
+
+/**
+ * Create an empty story memory
+ */
+export function createStoryMemory(): StoryMemory {
+    return {
+        scenes: [],
+        facts: { characters: [], items: [], clues: [] },
+        summary: '',
+        summaryTurn: 0,
+    };
+}
+
+/**
+ * Rough token count for budgeting prompts (about four characters per token for English)
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Merge new facts into the memory, skipping case-insensitive duplicates
+ */
+export function mergeFacts(memory: StoryMemory, facts: Partial<StoryFacts> | undefined): void {
+    for (const category of FACT_CATEGORIES) {
+        const known = memory.facts[category];
+        for (const fact of facts?.[category] ?? []) {
+            if (!known.some(existing => existing.toLowerCase() === fact.toLowerCase())) {
+                known.push(fact);
+            }
+        }
+        if (known.length > MEMORY_MAX_FACTS) {
+            known.splice(0, known.length - MEMORY_MAX_FACTS);
+        }
+    }
+}
+
+/**
+ * Remember a scene that was shown to the player, and the facts it established
+ */
+export function recordScene(memory: StoryMemory, turn: number, action: ActionRecord | undefined, scene: GPTSceneResponse): void {
+    memory.scenes.push({ turn, action, text: scene.scene_text });
+    if (memory.scenes.length > MEMORY_MAX_SCENES) {
+        memory.scenes.shift();
+    }
+    mergeFacts(memory, scene.facts);
+}
+
+/**
+ * Get the scenes the rolling summary does not cover yet
+ */
+export function getUnsummarizedScenes(memory: StoryMemory): SceneRecord[] {
+    return memory.scenes.filter(scene => scene.turn > memory.summaryTurn);
+}
+
+/**
+ * Check whether enough turns have passed to refresh the summary
+ */
+export function needsSummary(memory: StoryMemory): boolean {
+    return getUnsummarizedScenes(memory).length >= SUMMARY_INTERVAL;
+}
+
+/**
+ * Replace the rolling summary with one covering everything through the given turn
+ */
+export function applySummary(memory: StoryMemory, summary: string, throughTurn: number): void {
+    memory.summary = summary;
+    memory.summaryTurn = throughTurn;
+}
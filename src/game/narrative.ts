@@ -0,0 +1,95 @@
+import type { PlayerState, GPTSceneResponse, GPTEndingResponse, ScenarioPack, ActionRecord, StoryMemory, Difficulty } from './types';
+import { createOpenAIProvider, openAIOptionsFromEnv } from './gpt';
+import { createOfflineProvider } from './offline';
+import type { UsageContext } from './usage';
+
+export interface SceneRequest {
+    scenario: ScenarioPack;
+    turn: number;
+    playerState: PlayerState;
+    actionHistory: ActionRecord[];
+    previousAction?: ActionRecord | null; // The choice or typed action the player just made
+    memory?: StoryMemory; // Scenes, facts and summary narrated so far
+    difficulty?: Difficulty; // Sets how harsh consequences are (default resident)
+    usage?: UsageContext; // Session and round the cost is charged to
+}
+
+export interface EndingRequest {
+    scenario: ScenarioPack;
+    finalState: PlayerState;
+    actionHistory: ActionRecord[];
+    memory?: StoryMemory;
+    difficulty?: Difficulty;
+    usage?: UsageContext;
+}
+
+export interface SummaryRequest {
+    scenario: ScenarioPack;
+    memory: StoryMemory; // The summary is rebuilt from the previous summary and the unsummarized scenes
+    usage?: UsageContext;
+}
+
+export interface ModerationResult {
+    flagged: boolean;
+    categories: string[]; // Flagged categories, for logs only
+}
+
+/**
+ * Source of scenes and endings for a game run (scene images come from an ImageProvider).
+ * The bot is given one provider at startup and never talks to a model API directly.
+ */
+export interface NarrativeProvider {
+    name: string;
+    generateScene(request: SceneRequest): Promise<GPTSceneResponse>;
+    generateEnding(request: EndingRequest): Promise<GPTEndingResponse>;
+    summarizeStory(request: SummaryRequest): Promise<string>; // Rolling summary for long-term memory
+    moderateAction(text: string): Promise<ModerationResult>; // Screens typed /act text before it reaches a prompt
+}
+
+/**
+ * Create the narrative provider selected by NARRATIVE_PROVIDER (openai | offline)
+ */
+export function createNarrativeProvider(kind = process.env.NARRATIVE_PROVIDER || 'openai'): NarrativeProvider {
+    switch (kind) {
+        case 'openai':
+            return createOpenAIProvider(openAIOptionsFromEnv());
+        case 'offline':
+            return createOfflineProvider(process.env.NARRATIVE_SEED || 'room-616');
+        default:
+            throw new Error(`Unknown NARRATIVE_PROVIDER "${kind}". Expected "openai" or "offline".`);
+    }
+}
+
+// Choices offered when the very first scene cannot be generated
+export const STATIC_FILLER_CHOICES = ['Wait for the static to clear', 'Feel around in the dark'];
+
+/**
+ * Last-resort scene used when the provider fails. It carries no state changes and
+ * re-offers the same choices, so the session stays alive and the turn is not consumed.
+ */
+export function createStaticFillerScene(choices: string[]): GPTSceneResponse {
+    return {
+        scene_text:
+            'The TV static swallows the room. White noise roars from the speaker and the walls dissolve into grey snow. ' +
+            'For a long moment there is nothing — no rooms, no screams, no clock. Then, slowly, the picture crawls back, ' +
+            'exactly as it was. Whatever you were about to do, you still can.',
+        state_changes: {},
+        choices: choices.length > 0 ? choices : STATIC_FILLER_CHOICES,
+        hint: 'The signal was lost. Your last decision was not used — choose again.',
+    };
+}
+
+/**
+ * Ending used when the provider cannot produce one, so the run is still scored
+ */
+export function createFallbackEnding(finalState: PlayerState): GPTEndingResponse {
+    return {
+        ending_id: 'E-DEAD-SIGNAL-00',
+        ending_title: 'Dead Signal',
+        ending_text:
+            `On turn ${finalState.turn} the CRT dies mid-broadcast and every screen in the building goes dark at once. ` +
+            'You wait for a scream that never comes. When the lights return, the chain is open and the door stands ajar, ' +
+            'but the corridor beyond is just more static. Whoever was watching has lost the feed, and for now, you have lost them.',
+        proposed_score: 0,
+    };
+}
@@ -0,0 +1,205 @@
+import type { GPTSceneResponse, GPTEndingResponse } from './types';
+import type { NarrativeProvider, SceneRequest, EndingRequest, SummaryRequest } from './narrative';
+import { getUnsummarizedScenes } from './memory';
+import { SUMMARY_MAX_WORDS } from './validation';
+import { getPhase } from './scenario';
+import { getEligibleEndings } from './endings';
+
+// Scripted content for the offline provider. Scenes are assembled from an opening,
+// a phase-specific beat and a closing line so runs vary without a model.
+const OPENINGS = [
+    'The CRT hisses and the picture rolls, settling on a room identical to yours.',
+    'Somewhere down the corridor a lock clicks, then nothing.',
+    'The chain around your wrist is warm, as if someone held it moments ago.',
+    'A red light blinks above the door in a rhythm that feels deliberate.',
+    'The static on the screen resolves into a number: 416. Then it goes black.',
+];
+
+const PHASE_BEATS: Record<'early' | 'mid' | 'late', string[]> = {
+    early: [
+        'You feel along the chair and find a loose bolt under the armrest.',
+        'The wallpaper is peeling near the vent, revealing a strip of copper wiring.',
+        'On the TV, a woman in Room 216 mouths something at the camera: "count".',
+        'A hotel key card lies just beyond your reach, its magnetic strip scratched.',
+    ],
+    mid: [
+        'A voice crackles from the TV speaker, reading out room numbers like a roll call.',
+        'You notice every room on screen has the same clock, all stopped at 6:16.',
+        'Behind the mirror you find a lens, its cable running into the ceiling.',
+        'A maintenance log slid under the door lists "subjects" instead of guests.',
+    ],
+    late: [
+        'The feed flickers to a control room: rows of monitors, an empty swivel chair.',
+        'A badge on the floor reads "Observation Division — Floor 6".',
+        'The voice on the speaker pauses, then says your name for the first time.',
+        'Through the vent you hear two people arguing about "the final cohort".',
+    ],
+};
+
+const CLOSINGS = [
+    'Another scream echoes through the walls. The clock is still moving.',
+    'The screen shows one fewer lit room than before.',
+    'You have the feeling the next number called might be yours.',
+    'For a moment, the camera in the corner turns to follow you.',
+];
+
+const CHOICES = [
+    'Work the bolt loose',
+    'Study the TV feed',
+    'Call out to the other rooms',
+    'Search under the bed',
+    'Pry open the vent',
+    'Listen at the door',
+    'Smash the mirror',
+    'Stay still and wait',
+    'Follow the cable',
+    'Answer the voice',
+];
+
+const HINTS = [
+    'Patterns on the screen repeat every hour.',
+    'Not every voice is lying to you.',
+    'The rooms share more than a number.',
+];
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ */
+function hashSeed(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+    let a = seed;
+    return () => {
+        a = (a + 0x6d2b79f5) | 0;
+        let t = Math.imul(a ^ (a >>> 15), 1 | a);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+    return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Generate a scripted scene. The same seed, turn and history always yield the same scene.
+ */
+function generateScene(
+    seed: string,
+    { scenario, turn, playerState, actionHistory, previousAction }: SceneRequest
+): GPTSceneResponse {
+    const random = createRandom(
+        hashSeed(`${seed}|${scenario.id}|scene|${turn}|${actionHistory.map(action => action.text).join('|')}|${previousAction?.text ?? ''}`)
+    );
+
+    const parts: string[] = [];
+    if (previousAction?.kind === 'free_text') {
+        parts.push(`You try to ${previousAction.text.replace(/^i\s+/i, '').replace(/[.!?]+$/, '')}.`);
+    } else if (previousAction) {
+        parts.push(`You chose to ${previousAction.text.toLowerCase()}.`);
+    } else if (turn === 1) {
+        // Open with the first sentence of the scenario premise
+        parts.push(scenario.premise.split(/(?<=\.)\s/)[0]);
+    }
+    parts.push(pick(random, OPENINGS), pick(random, PHASE_BEATS[getPhase(turn, scenario.turns)]), pick(random, CLOSINGS));
+
+    // Now and then the player pockets an item or pieces together a clue from the pack
+    const newItems = scenario.items.filter(item => !playerState.inventory.includes(item.id));
+    const newClues = scenario.clues.filter(clue => !playerState.clues.includes(clue.id));
+    const item = newItems.length > 0 && random() < 0.3 ? pick(random, newItems) : undefined;
+    const clue = newClues.length > 0 && turn > 1 && random() < 0.35 ? pick(random, newClues) : undefined;
+    if (item) parts.push(`You take the ${item.name.toLowerCase()} with you.`);
+    if (clue) parts.push(`Something falls into place: ${clue.description.charAt(0).toLowerCase()}${clue.description.slice(1)}`);
+    // and, less often, something lingers
+    const effect =
+        scenario.status_effects.length > 0 && playerState.status_effects.length === 0 && turn > 1 && random() < 0.2
+            ? pick(random, scenario.status_effects)
+            : undefined;
+    if (effect) parts.push(effect.description);
+
+    const choiceCount = randomInt(random, 2, 4);
+    const pool = [...CHOICES];
+    const choices: string[] = [];
+    while (choices.length < choiceCount) {
+        choices.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+    }
+
+    return {
+        scene_text: parts.join(' '),
+        state_changes: {
+            trust: randomInt(random, -1, 1),
+            sanity: -randomInt(random, 0, 6),
+            insight: randomInt(random, 2, 8),
+            system_access: random() < 0.25 ? 1 : 0,
+            morality: randomInt(random, -5, 5),
+            ...(item ? { items_gained: [item.id] } : {}),
+            ...(clue ? { clues_found: [clue.id] } : {}),
+            ...(effect ? { effects_added: [effect.id] } : {}),
+        },
+        choices,
+        hint: random() < 0.3 ? pick(random, HINTS) : undefined,
+    };
+}
+
+/**
+ * Generate a scripted ending chosen from the scenario's ending catalog
+ */
+function generateEnding({ scenario, finalState, actionHistory }: EndingRequest): GPTEndingResponse {
+    // The most specific catalog ending the final state unlocks
+    const ending = getEligibleEndings(scenario, finalState)[0] ?? scenario.endings[scenario.endings.length - 1];
+
+    return {
+        ending_id: ending.id,
+        ending_title: ending.title,
+        ending_text:
+            `After ${finalState.turn} turns in ${scenario.name}, the television finally goes quiet. ` +
+            `Your last decisions — ${actionHistory.slice(-3).map(action => action.text).join(', ')} — echo in the silence. ` +
+            'Whoever was watching has seen enough, and the corridor outside waits to tell you what that means. ' +
+            'The other screens flicker one by one, each room emptied of its guest, each chair left facing a camera that no longer records. ' +
+            'Somewhere above you a door opens and closes, and footsteps fade toward the elevator. ' +
+            'You realise the experiment was never about escape: it was about who would keep choosing when nobody answered. ' +
+            `${scenario.name} keeps your answer, and the number on the door finally stops glowing.`,
+        proposed_score: 0,
+    };
+}
+
+/**
+ * Build a scripted summary: the previous summary plus the first new sentence of each new scene,
+ * keeping the most recent words when it grows past the limit
+ */
+function summarizeStory({ memory }: SummaryRequest): string {
+    const lines = getUnsummarizedScenes(memory).map(scene => {
+        // Scenes after an action open by restating it, so take the sentence that follows
+        const sentences = scene.text.split(/(?<=[.!?])\s/);
+        return `Turn ${scene.turn}: ${sentences[scene.action ? 1 : 0] ?? sentences[0]}`;
+    });
+    const words = [memory.summary, ...lines].filter(Boolean).join(' ').split(/\s+/);
+    return words.slice(-SUMMARY_MAX_WORDS).join(' ');
+}
+
+/**
+ * Create an offline, deterministic narrative provider that needs no network access
+ */
+export function createOfflineProvider(seed: string): NarrativeProvider {
+    return {
+        name: `offline (seed: ${seed})`,
+        generateScene: async request => generateScene(seed, request),
+        generateEnding: async request => generateEnding(request),
+        summarizeStory: async request => summarizeStory(request),
+        moderateAction: async () => ({ flagged: false, categories: [] }), // Local filters only
+    };
+}
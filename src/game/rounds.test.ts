@@ -0,0 +1,168 @@
+import { describe, expect, test } from 'bun:test';
+import type { EndingResult, RoundState } from './types';
+import {
+    ROUND_DURATION_MS,
+    ROUND_GRACE_MS,
+    ROUND_MIN_PLAYERS,
+    addToPrizePool,
+    advanceRounds,
+    getLatestRound,
+    getOpenRound,
+    getRound,
+    getRoundWinner,
+    joinRound,
+    recordRoundResult,
+} from './rounds';
+import { createEndingResult } from './scoring';
+import { createInitialState } from './state';
+import { getScenario } from './scenario';
+
+const scenario = getScenario('room-616')!;
+let scopes = 0;
+
+// Each test plays in a scope of its own, so rounds of other tests never get in the way
+function newScope(): string {
+    return `channel:test-${++scopes}`;
+}
+
+function resultScoring(insight: number): EndingResult {
+    const state = { ...createInitialState(scenario), insight };
+    return createEndingResult({ ending_id: 'E-TEST-01', ending_title: 'Test', ending_text: 'The end.' }, state, scenario);
+}
+
+function after(round: RoundState, ms: number): Date {
+    return new Date(round.closesAt.getTime() + ms);
+}
+
+function announcementsFor(round: RoundState, now: Date): string[] {
+    return advanceRounds(now)
+        .filter(announcement => announcement.round.roundId === round.roundId)
+        .map(announcement => announcement.kind);
+}
+
+/**
+ * Join enough players to a new round to settle it, and finish every run
+ */
+function playFullRound(scopeId: string): RoundState {
+    const players = Array.from({ length: ROUND_MIN_PLAYERS }, (_, index) => `player-${index}`);
+    const round = players.map(userId => joinRound(userId, 'channel', scopeId))[0];
+    players.forEach((userId, index) => recordRoundResult(round.roundId, userId, resultScoring(10 * (index + 1))));
+    return round;
+}
+
+describe('opening', () => {
+    test('looking up a scope opens no round', () => {
+        const scopeId = newScope();
+        expect(getOpenRound(scopeId)).toBeUndefined();
+        expect(getLatestRound(scopeId)).toBeUndefined();
+    });
+
+    test('the first run opens a round that later runs and tips join', () => {
+        const scopeId = newScope();
+        const round = joinRound('a', 'channel-1', scopeId);
+        expect(round).toMatchObject({ scopeId, status: 'open', prizePool: 0n });
+        expect(round.closesAt.getTime() - round.startedAt.getTime()).toBe(ROUND_DURATION_MS);
+        expect(joinRound('b', 'channel-2', scopeId)).toBe(round);
+        expect(addToPrizePool(100n, scopeId)).toBe(round);
+        expect(getOpenRound(scopeId)).toBe(round);
+        expect([...round.activePlayers]).toEqual(['a', 'b']);
+        expect([...round.channelIds]).toEqual(['channel-1', 'channel-2']);
+        expect(round.prizePool).toBe(100n);
+    });
+
+    test('a tip for a round of another scope funds the scope it was sent in', () => {
+        const other = joinRound('a', 'channel', newScope());
+        const scopeId = newScope();
+        const round = addToPrizePool(50n, scopeId, other.roundId);
+        expect(round.scopeId).toBe(scopeId);
+        expect(round.roundId).not.toBe(other.roundId);
+        expect(other.prizePool).toBe(0n);
+    });
+});
+
+describe('closing', () => {
+    test('at its deadline a round stops taking runs and the next run opens a new one', () => {
+        const scopeId = newScope();
+        const round = joinRound('a', 'channel', scopeId);
+        expect(announcementsFor(round, after(round, -1))).toEqual(['last_call']);
+        expect(announcementsFor(round, after(round, 0))).toEqual(['closing']);
+        expect(round.status).toBe('closing');
+        expect(round.graceEndsAt).toEqual(after(round, ROUND_GRACE_MS));
+        expect(getOpenRound(scopeId)).toBeUndefined();
+        expect(joinRound('b', 'channel', scopeId).roundId).not.toBe(round.roundId);
+    });
+
+    test('a finished run still counts while its round is closing', () => {
+        const scopeId = newScope();
+        const round = joinRound('a', 'channel', scopeId);
+        joinRound('b', 'channel', scopeId);
+        advanceRounds(after(round, 0));
+        expect(recordRoundResult(round.roundId, 'a', resultScoring(10))).toBe(round);
+        expect(round.status).toBe('closing');
+    });
+});
+
+describe('settling', () => {
+    test('a closing round settles once its last run finishes, and the best score wins', () => {
+        const round = playFullRound(newScope());
+        expect(announcementsFor(round, after(round, 0))).toEqual(['settled']);
+        expect(round.status).toBe('settled');
+        expect(round.winnerId).toBe(`player-${ROUND_MIN_PLAYERS - 1}`);
+        expect(round.settledAt).toEqual(after(round, 0));
+    });
+
+    test('a player\'s best run in the round is the one that counts', () => {
+        const scopeId = newScope();
+        const round = playFullRound(scopeId);
+        joinRound('player-0', 'channel', scopeId);
+        recordRoundResult(round.roundId, 'player-0', resultScoring(90));
+        recordRoundResult(round.roundId, 'player-0', resultScoring(0));
+        advanceRounds(after(round, 0));
+        expect(round.winnerId).toBe('player-0');
+    });
+
+    test('the earlier finisher wins a tie', () => {
+        const scopeId = newScope();
+        const round = joinRound('first', 'channel', scopeId);
+        joinRound('second', 'channel', scopeId);
+        recordRoundResult(round.roundId, 'first', resultScoring(50));
+        recordRoundResult(round.roundId, 'second', resultScoring(50));
+        expect(getRoundWinner(round.roundId)?.userId).toBe('first');
+    });
+
+    test('runs still going when the grace period ends do not hold the round up', () => {
+        const scopeId = newScope();
+        const round = playFullRound(scopeId);
+        joinRound('straggler', 'channel', scopeId);
+        advanceRounds(after(round, 0));
+        expect(round.status).toBe('closing');
+        advanceRounds(after(round, ROUND_GRACE_MS - 1));
+        expect(round.status).toBe('closing');
+        advanceRounds(after(round, ROUND_GRACE_MS));
+        expect(round.status).toBe('settled');
+        expect(recordRoundResult(round.roundId, 'straggler', resultScoring(100))).toBeUndefined();
+        expect(round.completedPlayers.has('straggler')).toBe(false);
+    });
+
+    test('a round with too few finished runs is cancelled and its pool carried over', () => {
+        const scopeId = newScope();
+        const round = joinRound('a', 'channel', scopeId);
+        addToPrizePool(70n, scopeId);
+        expect(announcementsFor(round, after(round, 0))).toEqual(['closing']);
+        expect(announcementsFor(round, after(round, ROUND_GRACE_MS))).toEqual(['cancelled']);
+        expect(round.status).toBe('cancelled');
+        expect(round.winnerId).toBeUndefined();
+        const next = getRound(round.carriedOverTo!)!;
+        expect(next).toMatchObject({ scopeId, status: 'open', prizePool: 70n });
+        expect([...next.channelIds]).toEqual(['channel']);
+        expect(getOpenRound(scopeId, after(round, ROUND_GRACE_MS))).toBe(next);
+    });
+
+    test('each announcement is made once', () => {
+        const round = playFullRound(newScope());
+        const now = after(round, 0);
+        expect(announcementsFor(round, now)).toEqual(['settled']);
+        expect(announcementsFor(round, now)).toEqual([]);
+        expect(round.announced).toEqual(['settled']);
+    });
+});
@@ -0,0 +1,283 @@
+import type { EndingResult, RoundAnnouncementKind, RoundState } from './types';
+import { FREE_TEXT_DEFAULT } from './actions';
+import { getStore } from './storage';
+import { getCurrentSeasonId } from './seasons';
+
+const MINUTE = 60_000;
+
+// Round lifecycle settings
+export const ROUND_DURATION_MS = Number(process.env.ROUND_DURATION_MINUTES ?? 24 * 60) * MINUTE;
+export const ROUND_GRACE_MS = Number(process.env.ROUND_GRACE_MINUTES ?? 30) * MINUTE; // For runs in progress at close
+export const ROUND_LAST_CALL_MS = Number(process.env.ROUND_LAST_CALL_MINUTES ?? 60) * MINUTE; // Before close
+export const ROUND_MIN_PLAYERS = Number(process.env.ROUND_MIN_PLAYERS ?? 2); // Finished players needed to settle
+
+export interface RoundAnnouncement {
+    kind: RoundAnnouncementKind;
+    round: RoundState;
+}
+
+const rounds = new Map<string, RoundState>(); // roundId -> round
+const currentRounds = new Map<string, string>(); // scopeId -> roundId of the latest round, which new runs join while it is open
+
+/**
+ * Persist a round after changing it, e.g. its prize pool or settings
+ */
+export function saveRound(round: RoundState): void {
+    getStore().saveRound(round);
+}
+
+function openRound(scopeId: string, channelIds: Iterable<string> = [], now = new Date()): RoundState {
+    // Scopes can open rounds in the same millisecond
+    let roundId = `round-${now.getTime()}`;
+    for (let n = 2; rounds.has(roundId); n++) roundId = `round-${now.getTime()}-${n}`;
+    const round: RoundState = {
+        roundId,
+        scopeId,
+        seasonId: getCurrentSeasonId(scopeId),
+        prizePool: 0n,
+        activePlayers: new Set(),
+        completedPlayers: new Map(),
+        startedAt: now,
+        status: 'open',
+        closesAt: new Date(now.getTime() + ROUND_DURATION_MS),
+        channelIds: new Set(channelIds),
+        announced: [],
+        allowFreeText: FREE_TEXT_DEFAULT,
+    };
+    rounds.set(round.roundId, round);
+    saveRound(round);
+    currentRounds.set(scopeId, round.roundId);
+    saveCurrentRounds();
+    return round;
+}
+
+function saveCurrentRounds(): void {
+    getStore().setSetting('current_rounds', JSON.stringify(Object.fromEntries(currentRounds)));
+}
+
+/**
+ * Get the open round a scope's new runs join, opening one when there is none or its time is up.
+ * Only for runs joining and tips funding a round; lookups use getOpenRound.
+ */
+function getCurrentRound(scopeId: string, now = new Date()): RoundState {
+    const currentId = currentRounds.get(scopeId);
+    const current = currentId ? rounds.get(currentId) : undefined;
+    if (current?.status === 'open' && now < current.closesAt) {
+        return current;
+    }
+    if (current?.status === 'open') {
+        // The scheduler has not caught up yet; no run may join a round past its close
+        startClosing(current, now);
+    }
+    return openRound(scopeId, current?.channelIds, now);
+}
+
+/**
+ * Get the round a scope's new runs would join right now, without opening or closing any.
+ * Undefined when no round is open, e.g. before the scope's first run or once its time is up.
+ */
+export function getOpenRound(scopeId: string, now = new Date()): RoundState | undefined {
+    const current = getLatestRound(scopeId);
+    return current?.status === 'open' && now < current.closesAt ? current : undefined;
+}
+
+/**
+ * Get a round by id, whatever its status
+ */
+export function getRound(roundId: string): RoundState | undefined {
+    return rounds.get(roundId);
+}
+
+/**
+ * Get a scope's most recently opened round without opening a new one, e.g. for display
+ */
+export function getLatestRound(scopeId: string): RoundState | undefined {
+    const currentId = currentRounds.get(scopeId);
+    return currentId ? rounds.get(currentId) : undefined;
+}
+
+/**
+ * Add a player who is starting a run to their scope's current round
+ */
+export function joinRound(userId: string, channelId: string, scopeId: string): RoundState {
+    const round = getCurrentRound(scopeId);
+    round.activePlayers.add(userId);
+    round.channelIds.add(channelId);
+    saveRound(round);
+    return round;
+}
+
+/**
+ * Remove a player whose run ended without a result, e.g. one that failed to start, so the
+ * round does not wait for it to finish
+ */
+export function leaveRound(roundId: string, userId: string): void {
+    const round = rounds.get(roundId);
+    if (round?.activePlayers.delete(userId)) {
+        saveRound(round);
+    }
+}
+
+/**
+ * Add a tip to a prize pool in the scope it was sent in: the given round while it has not
+ * settled, otherwise the scope's current one. A round of another scope is never funded.
+ */
+export function addToPrizePool(amount: bigint, scopeId: string, roundId?: string): RoundState {
+    const target = roundId ? rounds.get(roundId) : undefined;
+    const round = target && target.scopeId === scopeId && (target.status === 'open' || target.status === 'closing')
+        ? target
+        : getCurrentRound(scopeId);
+    round.prizePool += amount;
+    saveRound(round);
+    return round;
+}
+
+/**
+ * Record a finished run in its round. Returns the round, or undefined when the round was
+ * already settled or cancelled and the result only counts for the leaderboard.
+ */
+export function recordRoundResult(roundId: string, userId: string, result: EndingResult): RoundState | undefined {
+    const round = rounds.get(roundId);
+    if (!round) return undefined;
+    round.activePlayers.delete(userId);
+    if (round.status !== 'open' && round.status !== 'closing') {
+        saveRound(round);
+        return undefined;
+    }
+    // A player's best run in the round is the one that competes
+    const previous = round.completedPlayers.get(userId);
+    if (!previous || result.final_score > previous.final_score) {
+        round.completedPlayers.set(userId, result);
+    }
+    saveRound(round);
+    return round;
+}
+
+/**
+ * Get round winner (highest score; the earlier finisher wins a tie)
+ */
+export function getRoundWinner(roundId: string): { userId: string; result: EndingResult } | null {
+    const round = rounds.get(roundId);
+    if (!round || round.completedPlayers.size === 0) return null;
+
+    let winner: { userId: string; result: EndingResult } | null = null;
+    let highestScore = -1;
+
+    for (const [userId, result] of round.completedPlayers.entries()) {
+        if (result.final_score > highestScore) {
+            highestScore = result.final_score;
+            winner = { userId, result };
+        }
+    }
+
+    return winner;
+}
+
+function startClosing(round: RoundState, now: Date): void {
+    round.status = 'closing';
+    round.graceEndsAt = new Date(now.getTime() + ROUND_GRACE_MS);
+    saveRound(round);
+}
+
+function settleRound(round: RoundState, now: Date): void {
+    round.settledAt = now;
+    if (round.completedPlayers.size >= ROUND_MIN_PLAYERS) {
+        round.status = 'settled';
+        round.winnerId = getRoundWinner(round.roundId)?.userId;
+        saveRound(round);
+        return;
+    }
+    round.status = 'cancelled';
+    if (round.prizePool > 0n) {
+        // Tips are never dropped: the pool moves to the scope's open round, opening one if needed
+        const next = getCurrentRound(round.scopeId, now);
+        for (const channelId of round.channelIds) next.channelIds.add(channelId);
+        next.prizePool += round.prizePool;
+        round.carriedOverTo = next.roundId;
+        saveRound(next);
+    }
+    saveRound(round);
+}
+
+/**
+ * Close a scope's open round ahead of schedule, e.g. when its season ends. Runs in progress get
+ * the usual grace period; the next run to start opens a round in the new season.
+ */
+export function closeOpenRound(scopeId: string, now = new Date()): RoundState | undefined {
+    const current = getLatestRound(scopeId);
+    if (current?.status !== 'open') return undefined;
+    current.closesAt = now;
+    startClosing(current, now);
+    return current;
+}
+
+/**
+ * Check whether any round of a season is still open or closing
+ */
+export function hasUnsettledRounds(seasonId: string): boolean {
+    return [...rounds.values()].some(
+        round => round.seasonId === seasonId && (round.status === 'open' || round.status === 'closing')
+    );
+}
+
+/**
+ * Move every round along its lifecycle: open rounds close at closesAt, closing rounds settle
+ * once their last run finishes or the grace period ends. Returns the announcements due, each
+ * made once per round; rounds without channels (nobody joined) are not announced.
+ */
+export function advanceRounds(now = new Date()): RoundAnnouncement[] {
+    for (const round of [...rounds.values()]) {
+        // A round that fails to move on is retried next time; the others still move
+        try {
+            if (round.status === 'open' && now >= round.closesAt) {
+                startClosing(round, now);
+            }
+            if (round.status === 'closing' && (round.activePlayers.size === 0 || now >= round.graceEndsAt!)) {
+                settleRound(round, now);
+            }
+        } catch (error) {
+            console.error(`Could not advance round ${round.roundId}:`, error);
+        }
+    }
+
+    const announcements: RoundAnnouncement[] = [];
+    for (const round of rounds.values()) {
+        if (round.channelIds.size === 0) continue;
+        const due: RoundAnnouncementKind[] = [];
+        if (round.status === 'open') {
+            due.push('opened');
+            if (round.closesAt.getTime() - now.getTime() <= ROUND_LAST_CALL_MS) due.push('last_call');
+        } else if (round.status === 'closing') {
+            due.push('closing');
+        } else {
+            due.push(round.status);
+        }
+        const fresh = due.filter(kind => !round.announced.includes(kind));
+        if (fresh.length === 0) continue;
+        try {
+            saveRound({ ...round, announced: [...round.announced, ...fresh] });
+        } catch (error) {
+            console.error(`Could not record announcements for round ${round.roundId}:`, error);
+            continue;
+        }
+        round.announced.push(...fresh);
+        // Only the latest news is worth posting, e.g. a round that settled while the bot was down
+        announcements.push({ kind: fresh[fresh.length - 1], round });
+    }
+    return announcements;
+}
+
+/**
+ * Load rounds and each scope's current round from the store. Call once at startup, after restoreSeasons.
+ */
+export function restoreRounds(): number {
+    const store = getStore();
+    for (const round of store.loadRounds()) {
+        rounds.set(round.roundId, round);
+    }
+    const stored: Record<string, string> = JSON.parse(store.getSetting('current_rounds') ?? '{}');
+    for (const [scopeId, roundId] of Object.entries(stored)) {
+        if (rounds.has(roundId)) currentRounds.set(scopeId, roundId);
+    }
+    return rounds.size;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'bun:test';
+import type { PlayerState, StateAdjustment, StateChanges } from './types';
+import type { RunEvent, RunEventData } from './runlog';
+import { verifyRun } from './runlog';
+import { applyStateChanges, createForfeitState, createInitialState } from './state';
+import { createEndingResult } from './scoring';
+import { getScenario } from './scenario';
+
+const scenario = getScenario('room-616')!;
+const ending = { ending_id: 'E-TEST-01', ending_title: 'Test', ending_text: 'The end.' };
+
+function toLog(data: RunEventData[]): RunEvent[] {
+    return data.map((event, index) => ({ ...event, sessionId: 'sess-test', seq: index + 1, at: new Date(0).toISOString() }));
+}
+
+function transition(before: PlayerState, changes: StateChanges): Extract<RunEventData, { type: 'state_changes' }> {
+    const adjustments: StateAdjustment[] = [];
+    const after = applyStateChanges(before, changes, scenario, adjustments);
+    return { type: 'state_changes', before, changes, after, adjustments };
+}
+
+/**
+ * A finished two-turn run, its second turn with a capped change
+ */
+function playRun(): RunEventData[] {
+    const start = createInitialState(scenario);
+    const first = transition(start, { insight: 10, items_gained: ['loose-bolt'] });
+    const second = transition(first.after, { insight: 40, trust: 1 });
+    const result = createEndingResult(ending, second.after, scenario, 'resident', 'v1');
+    return [
+        {
+            type: 'session_started',
+            userId: 'player',
+            scenarioId: scenario.id,
+            length: 'standard',
+            difficulty: 'resident',
+            roundId: 'round-test',
+            provider: 'offline',
+            tipAmount: '0',
+            state: start,
+        },
+        first,
+        second,
+        { type: 'ending', source: 'model', ending: { ...ending, proposed_score: 0 }, finalState: second.after },
+        { type: 'score', result },
+    ];
+}
+
+describe('verifyRun', () => {
+    test('accepts an untouched run', () => {
+        const events = playRun();
+        const score = events[4].type === 'score' ? events[4].result.final_score : null;
+        expect(verifyRun(toLog(events))).toEqual({ ok: true, issues: [], loggedScore: score, recomputedScore: score });
+    });
+
+    test('accepts a forfeited run', () => {
+        const events = playRun();
+        const before = events[2].type === 'state_changes' ? events[2].after : createInitialState(scenario);
+        const after = createForfeitState(before, scenario);
+        const result = createEndingResult(ending, after, scenario, 'resident', 'v1');
+        const forfeited: RunEventData[] = [
+            ...events.slice(0, 3),
+            { type: 'forfeit', reason: 'idle', before, after },
+            { type: 'ending', source: 'forfeit', ending: { ...ending, proposed_score: 0 }, finalState: after },
+            { type: 'score', result },
+        ];
+        expect(verifyRun(toLog(forfeited)).ok).toBe(true);
+    });
+
+    test('needs a session_started event', () => {
+        expect(verifyRun(toLog(playRun().slice(1))).issues).toEqual(['log has no session_started event']);
+    });
+
+    test('catches a state that does not replay', () => {
+        const events = playRun();
+        const second = events[2] as Extract<RunEventData, { type: 'state_changes' }>;
+        events[2] = { ...second, after: { ...second.after, insight: second.after.insight + 5 } };
+        const { ok, issues } = verifyRun(toLog(events));
+        expect(ok).toBe(false);
+        expect(issues).toContain('#3 state_changes does not replay to the logged state');
+        expect(issues).toContain('#4 ending was scored on a different state than the run reached');
+    });
+
+    test('catches a broken chain of states', () => {
+        const events = playRun();
+        const second = events[2] as Extract<RunEventData, { type: 'state_changes' }>;
+        events[2] = transition({ ...second.before, sanity: 50 }, second.changes);
+        expect(verifyRun(toLog(events)).issues).toContain('#3 state_changes starts from a state the previous transition did not produce');
+    });
+
+    test('catches hidden caps', () => {
+        const events = playRun();
+        const second = events[2] as Extract<RunEventData, { type: 'state_changes' }>;
+        events[2] = { ...second, adjustments: [] };
+        expect(verifyRun(toLog(events)).issues).toEqual(['#3 state_changes replays with different capped or rejected changes']);
+    });
+
+    test('catches an inflated score and a tier that does not match it', () => {
+        const events = playRun();
+        const score = events[4] as Extract<RunEventData, { type: 'score' }>;
+        const recomputed = score.result.final_score;
+        events[4] = { type: 'score', result: { ...score.result, final_score: 999, tier: 'S' } };
+        const verification = verifyRun(toLog(events));
+        expect(verification).toMatchObject({ ok: false, loggedScore: 999, recomputedScore: recomputed });
+        expect(verification.issues).toEqual([
+            `#5 logged score 999 but the final state scores ${recomputed}`,
+            `#5 logged tier S but score ${recomputed} is tier ${score.result.tier}`,
+        ]);
+    });
+
+    test('rescores under the version the score was logged with', () => {
+        const events = playRun();
+        const finalState = (events[3] as Extract<RunEventData, { type: 'ending' }>).finalState;
+        events[4] = { type: 'score', result: createEndingResult(ending, finalState, scenario, 'resident', 'v2') };
+        expect(verifyRun(toLog(events)).ok).toBe(true);
+    });
+});
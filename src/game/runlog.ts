@@ -0,0 +1,188 @@
+import type {
+    ActionRecord,
+    EndingResult,
+    Difficulty,
+    ForfeitReason,
+    GameLength,
+    GPTEndingResponse,
+    GPTSceneResponse,
+    PlayerState,
+    StateAdjustment,
+    StateChanges,
+    StoryChoice,
+} from './types';
+import { getScenario } from './scenario';
+import { withGameLength } from './length';
+import { withDifficulty } from './difficulty';
+import { applyStateChanges, createForfeitState } from './state';
+import { applyChoiceEffects } from './story';
+import { computeScore, getPercentileTier, getTier } from './scoring';
+import { getStore } from './storage';
+
+/**
+ * What happened during a run, in the order it happened. Model exchanges keep the exact
+ * prompt and raw response; state transitions keep both sides so they can be replayed.
+ */
+export type RunEventData =
+    | {
+          type: 'session_started';
+          userId: string;
+          scenarioId: string;
+          length: GameLength;
+          difficulty: Difficulty;
+          storyId?: string;
+          roundId: string;
+          provider: string;
+          tipAmount: string; // wei, as a string because JSON has no bigint
+          state: PlayerState;
+      }
+    | { type: 'action_chosen'; turn: number; action: ActionRecord }
+    | { type: 'scene_requested'; turn: number; action: ActionRecord | null }
+    | { type: 'model_request'; kind: string; attempt: number; system?: string; prompt: string }
+    | { type: 'model_response'; kind: string; attempt: number; model: string; raw: string; issues?: string[] }
+    | { type: 'scene'; turn: number; source: 'model' | 'story' | 'filler'; nodeId?: string | null; scene: GPTSceneResponse }
+    | { type: 'state_changes'; before: PlayerState; changes: StateChanges; after: PlayerState; adjustments: StateAdjustment[] }
+    | { type: 'choice_effects'; before: PlayerState; effects: StoryChoice['effects']; after: PlayerState }
+    | { type: 'forfeit'; reason: ForfeitReason; before: PlayerState; after: PlayerState }
+    | { type: 'ending'; source: 'model' | 'story' | 'fallback' | 'forfeit'; ending: GPTEndingResponse; finalState: PlayerState }
+    | { type: 'score'; result: EndingResult };
+
+export type RunEvent = RunEventData & {
+    sessionId: string;
+    seq: number; // 1-based position in the session's log
+    at: string; // ISO timestamp
+};
+
+export interface RunVerification {
+    ok: boolean;
+    issues: string[];
+    loggedScore: number | null;
+    recomputedScore: number | null;
+}
+
+// What admins type to look a run up by session id rather than by player
+export const SESSION_ID_PATTERN = /^sess-[\w.-]+$/;
+
+// Append-only logs; each event is also written through to the store
+const runLogs = new Map<string, RunEvent[]>(); // sessionId -> events
+const userRuns = new Map<string, string[]>(); // userId -> sessionIds started by this process, oldest first
+
+/**
+ * Append an event to a session's run log. Events are never changed or removed once written.
+ * The store write is synchronous so a crash cannot reorder or drop an event that was reported.
+ */
+export function appendRunEvent(sessionId: string, data: RunEventData): RunEvent {
+    let events = runLogs.get(sessionId);
+    if (!events) {
+        // A run restored after a restart carries on from its stored events
+        events = getStore().loadRunEvents(sessionId);
+        runLogs.set(sessionId, events);
+    }
+    // Deep copy so later mutation of the session cannot rewrite history
+    const event: RunEvent = structuredClone({ ...data, sessionId, seq: events.length + 1, at: new Date().toISOString() });
+    events.push(event);
+    if (data.type === 'session_started') {
+        userRuns.set(data.userId, [...(userRuns.get(data.userId) ?? []), sessionId]);
+    }
+
+    try {
+        getStore().appendRunEvent(event);
+    } catch (error) {
+        console.error('Could not write run log event:', error instanceof Error ? error.message : error);
+    }
+    return event;
+}
+
+/**
+ * Get a session's run log, reading it back from the store for runs from before a restart
+ */
+export function getRunLog(sessionId: string): RunEvent[] {
+    return runLogs.get(sessionId) ?? getStore().loadRunEvents(sessionId);
+}
+
+/**
+ * Get the id of a user's most recent run, looking in the store for runs from before a restart
+ */
+export function getLatestRunId(userId: string): string | undefined {
+    return userRuns.get(userId)?.at(-1) ?? getStore().findLatestRunId(userId);
+}
+
+function sameState(a: PlayerState, b: PlayerState): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Check a run log: every state transition must follow from the one before and replay to
+ * the same result, the ending must use the final state, and the logged score must match
+ * computeScore on that state under the scoring version it was logged with. Replays use the
+ * scenario pack as currently loaded.
+ */
+export function verifyRun(events: RunEvent[]): RunVerification {
+    const issues: string[] = [];
+    const start = events.find(event => event.type === 'session_started');
+    if (!start || start.type !== 'session_started') {
+        return { ok: false, issues: ['log has no session_started event'], loggedScore: null, recomputedScore: null };
+    }
+    const pack = getScenario(start.scenarioId);
+    if (!pack) {
+        return { ok: false, issues: [`scenario ${start.scenarioId} is not loaded`], loggedScore: null, recomputedScore: null };
+    }
+    const scenario = withDifficulty(withGameLength(pack, start.length), start.difficulty);
+
+    let state = start.state;
+    let finalState: PlayerState | null = null;
+    let loggedScore: number | null = null;
+    let recomputedScore: number | null = null;
+
+    for (const event of events) {
+        if (event.type === 'state_changes' || event.type === 'choice_effects') {
+            if (!sameState(event.before, state)) {
+                issues.push(`#${event.seq} ${event.type} starts from a state the previous transition did not produce`);
+            }
+            const adjustments: StateAdjustment[] = [];
+            const replayed =
+                event.type === 'state_changes'
+                    ? applyStateChanges(event.before, event.changes, scenario, adjustments)
+                    : applyChoiceEffects(event.before, event.effects, scenario);
+            if (!sameState(replayed, event.after)) {
+                issues.push(`#${event.seq} ${event.type} does not replay to the logged state`);
+            } else if (event.type === 'state_changes' && JSON.stringify(adjustments) !== JSON.stringify(event.adjustments)) {
+                issues.push(`#${event.seq} state_changes replays with different capped or rejected changes`);
+            }
+            state = event.after;
+        } else if (event.type === 'forfeit') {
+            if (!sameState(event.before, state)) {
+                issues.push(`#${event.seq} forfeit starts from a state the previous transition did not produce`);
+            }
+            if (!sameState(createForfeitState(event.before, scenario), event.after)) {
+                issues.push(`#${event.seq} forfeit does not replay to the logged state`);
+            }
+            state = event.after;
+        } else if (event.type === 'ending') {
+            finalState = event.finalState;
+            if (!sameState(event.finalState, state)) {
+                issues.push(`#${event.seq} ending was scored on a different state than the run reached`);
+            }
+        } else if (event.type === 'score') {
+            loggedScore = event.result.final_score;
+            if (!finalState) {
+                issues.push(`#${event.seq} score logged before any ending`);
+                continue;
+            }
+            // Rescored under the version the score was logged with, not the season's current one
+            recomputedScore = computeScore(finalState, scenario, start.difficulty, event.result.breakdown.version);
+            if (recomputedScore !== loggedScore) {
+                issues.push(`#${event.seq} logged score ${loggedScore} but the final state scores ${recomputedScore}`);
+            }
+            // Percentile tiers depend on the season at finish time, so only the logged placement is checked
+            const { percentile } = event.result;
+            const expectedTier = percentile === undefined ? getTier(recomputedScore) : getPercentileTier(percentile);
+            const basis = percentile === undefined ? `score ${recomputedScore}` : `top ${percentile}%`;
+            if (expectedTier !== event.result.tier) {
+                issues.push(`#${event.seq} logged tier ${event.result.tier} but ${basis} is tier ${expectedTier}`);
+            }
+        }
+    }
+
+    return { ok: issues.length === 0, issues, loggedScore, recomputedScore };
+}
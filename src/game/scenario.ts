@@ -0,0 +1,328 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type { ScenarioPack, StatKey } from './types';
+import { isUnconditional, validateConditions } from './conditions';
+import { CHOICE_MAX_LENGTH, ENDING_ID_PATTERN, isRecord } from './validation';
+
+export const STAT_KEYS: StatKey[] = ['time_remaining', 'trust', 'sanity', 'insight', 'system_access', 'morality'];
+
+const TEXT_FIELDS = [
+    'id',
+    'name',
+    'description',
+    'premise',
+    'scene_context',
+    'opening_instruction',
+    'tone',
+    'ending_guidance',
+    'opening_image_prompt',
+    'image_style',
+] as const;
+
+// Loaded scenario packs
+const scenarios = new Map<string, ScenarioPack>(); // scenarioId -> pack
+let defaultScenarioId = process.env.DEFAULT_SCENARIO || 'room-616';
+
+/**
+ * Thrown when a scenario pack file is malformed
+ */
+export class ScenarioPackError extends Error {
+    constructor(
+        public readonly source: string,
+        public readonly issues: string[]
+    ) {
+        super(`Invalid scenario pack ${source}: ${issues.join('; ')}`);
+        this.name = 'ScenarioPackError';
+    }
+}
+
+/**
+ * Validate an item, clue or status effect vocabulary: unique lowercase-dash ids with the given text fields
+ */
+function checkVocabulary(issues: string[], field: string, value: unknown, textFields: string[]): void {
+    if (!Array.isArray(value)) {
+        issues.push(`${field} must be an array`);
+        return;
+    }
+    const seen = new Set<string>();
+    value.forEach((entry: unknown, index: number) => {
+        const entryField = `${field}[${index}]`;
+        if (!isRecord(entry)) {
+            issues.push(`${entryField} must be an object`);
+            return;
+        }
+        if (typeof entry.id !== 'string' || !/^[a-z0-9][a-z0-9-]*$/.test(entry.id)) {
+            issues.push(`${entryField}.id must be lowercase letters, digits and dashes`);
+        } else if (seen.has(entry.id)) {
+            issues.push(`${entryField}.id "${entry.id}" is duplicated`);
+        } else {
+            seen.add(entry.id);
+        }
+        for (const text of textFields) {
+            if (typeof entry[text] !== 'string' || entry[text].trim() === '') {
+                issues.push(`${entryField}.${text} must be a non-empty string`);
+            }
+        }
+    });
+}
+
+/**
+ * Validate a status effect's duration, stat modifiers and choice changes
+ */
+function checkStatusEffect(issues: string[], field: string, effect: Record<string, unknown>): void {
+    if (typeof effect.duration !== 'number' || !Number.isInteger(effect.duration) || effect.duration < 1) {
+        issues.push(`${field}.duration must be a positive integer`);
+    }
+    if (effect.modifiers !== undefined) {
+        if (!isRecord(effect.modifiers)) {
+            issues.push(`${field}.modifiers must be an object of stat deltas`);
+        } else {
+            for (const [key, delta] of Object.entries(effect.modifiers)) {
+                if (!STAT_KEYS.includes(key as StatKey)) {
+                    issues.push(`${field}.modifiers.${key} is not a known stat`);
+                } else if (typeof delta !== 'number' || !Number.isFinite(delta)) {
+                    issues.push(`${field}.modifiers.${key} must be a number`);
+                }
+            }
+        }
+    }
+    for (const list of ['hides_choices', 'adds_choices']) {
+        const entries = effect[list];
+        if (entries === undefined) continue;
+        if (!Array.isArray(entries) || !entries.every(entry => typeof entry === 'string' && entry.trim() !== '')) {
+            issues.push(`${field}.${list} must be an array of non-empty strings`);
+        } else if (list === 'adds_choices' && entries.some((entry: string) => entry.length > CHOICE_MAX_LENGTH)) {
+            issues.push(`${field}.adds_choices must be at most ${CHOICE_MAX_LENGTH} characters each`);
+        }
+    }
+}
+
+/**
+ * Validate a parsed scenario pack and return it typed, or throw ScenarioPackError
+ */
+export function validateScenarioPack(value: unknown, source = 'pack'): ScenarioPack {
+    if (!isRecord(value)) {
+        throw new ScenarioPackError(source, ['pack must be a JSON object']);
+    }
+    const issues: string[] = [];
+
+    for (const field of TEXT_FIELDS) {
+        if (typeof value[field] !== 'string' || value[field].trim() === '') {
+            issues.push(`${field} must be a non-empty string`);
+        }
+    }
+    if (typeof value.id === 'string' && !/^[a-z0-9][a-z0-9-]*$/.test(value.id)) {
+        issues.push('id must be lowercase letters, digits and dashes');
+    }
+
+    if (!Array.isArray(value.narrative_goals) || !value.narrative_goals.every(goal => typeof goal === 'string')) {
+        issues.push('narrative_goals must be an array of strings');
+    }
+
+    if (!isRecord(value.revelation)) {
+        issues.push('revelation must be an object with early, mid and late');
+    } else {
+        for (const phase of ['early', 'mid', 'late']) {
+            if (typeof value.revelation[phase] !== 'string') {
+                issues.push(`revelation.${phase} must be a string`);
+            }
+        }
+    }
+
+    if (typeof value.turns !== 'number' || !Number.isInteger(value.turns) || value.turns < 3 || value.turns > 50) {
+        issues.push('turns must be an integer between 3 and 50');
+    }
+
+    if (!isRecord(value.stats)) {
+        issues.push('stats must be an object');
+    } else {
+        for (const key of STAT_KEYS) {
+            const stat = value.stats[key];
+            if (!isRecord(stat)) {
+                issues.push(`stats.${key} is required`);
+                continue;
+            }
+            if (typeof stat.label !== 'string' || typeof stat.emoji !== 'string') {
+                issues.push(`stats.${key} needs a label and emoji`);
+            }
+            const { min, max, initial } = stat;
+            if (typeof min !== 'number' || typeof max !== 'number' || typeof initial !== 'number') {
+                issues.push(`stats.${key} needs numeric min, max and initial`);
+            } else if (min >= max || initial < min || initial > max) {
+                issues.push(`stats.${key} must satisfy min < max and min <= initial <= max`);
+            }
+            for (const limit of ['max_change', 'max_gain'] as const) {
+                if (stat[limit] !== undefined && (typeof stat[limit] !== 'number' || !(stat[limit] > 0))) {
+                    issues.push(`stats.${key}.${limit} must be a positive number`);
+                }
+            }
+            if (stat.decay !== undefined && (typeof stat.decay !== 'number' || !Number.isFinite(stat.decay))) {
+                issues.push(`stats.${key}.decay must be a number`);
+            }
+        }
+        for (const key of Object.keys(value.stats)) {
+            if (!STAT_KEYS.includes(key as StatKey)) {
+                issues.push(`stats.${key} is not a known stat (allowed: ${STAT_KEYS.join(', ')})`);
+            }
+        }
+    }
+
+    // Packs without an inventory simply have nothing to find
+    value.items ??= [];
+    value.clues ??= [];
+    checkVocabulary(issues, 'items', value.items, ['name', 'emoji', 'description']);
+    checkVocabulary(issues, 'clues', value.clues, ['name', 'description']);
+    if (Array.isArray(value.clues)) {
+        value.clues.forEach((clue: unknown, index: number) => {
+            if (isRecord(clue) && (typeof clue.points !== 'number' || !Number.isFinite(clue.points))) {
+                issues.push(`clues[${index}].points must be a number`);
+            }
+        });
+    }
+    value.status_effects ??= [];
+    checkVocabulary(issues, 'status_effects', value.status_effects, ['name', 'emoji', 'description']);
+    if (Array.isArray(value.status_effects)) {
+        value.status_effects.forEach((effect: unknown, index: number) => {
+            if (isRecord(effect)) checkStatusEffect(issues, `status_effects[${index}]`, effect);
+        });
+    }
+    const vocabulary =
+        Array.isArray(value.items) && Array.isArray(value.clues)
+            ? (value as unknown as Pick<ScenarioPack, 'items' | 'clues'>)
+            : undefined;
+
+    if (!Array.isArray(value.endings) || value.endings.length === 0) {
+        issues.push('endings must be a non-empty array');
+    } else {
+        const seen = new Set<string>();
+        value.endings.forEach((ending: unknown, index: number) => {
+            const field = `endings[${index}]`;
+            if (!isRecord(ending)) {
+                issues.push(`${field} must be an object`);
+                return;
+            }
+            if (typeof ending.id !== 'string' || !ENDING_ID_PATTERN.test(ending.id)) {
+                issues.push(`${field}.id must look like "E-GLASS-CORRIDOR-07"`);
+            } else if (seen.has(ending.id)) {
+                issues.push(`${field}.id "${ending.id}" is duplicated`);
+            } else {
+                seen.add(ending.id);
+            }
+            if (typeof ending.title !== 'string' || typeof ending.summary !== 'string') {
+                issues.push(`${field} needs a title and summary`);
+            }
+            validateConditions(issues, `${field}.conditions`, ending.conditions, vocabulary);
+        });
+        // Some ending must always be reachable
+        if (!value.endings.some((ending: unknown) => isRecord(ending) && isUnconditional(ending.conditions))) {
+            issues.push('endings need at least one entry without conditions');
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new ScenarioPackError(source, issues);
+    }
+    return value as unknown as ScenarioPack;
+}
+
+/**
+ * Register a validated scenario pack, replacing any pack with the same id
+ */
+export function registerScenario(pack: ScenarioPack): void {
+    scenarios.set(pack.id, pack);
+}
+
+/**
+ * Load every *.json scenario pack from a directory.
+ * Invalid packs are reported and skipped so one bad file cannot take the bot down.
+ */
+export function loadScenarioPacks(dir = process.env.SCENARIO_DIR || 'scenarios'): ScenarioPack[] {
+    const loaded: ScenarioPack[] = [];
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+        const path = join(dir, file);
+        try {
+            const pack = validateScenarioPack(JSON.parse(readFileSync(path, 'utf8')), path);
+            registerScenario(pack);
+            loaded.push(pack);
+        } catch (error) {
+            console.error(`Skipping scenario pack ${path}:`, error instanceof Error ? error.message : error);
+        }
+    }
+
+    if (!scenarios.has(defaultScenarioId)) {
+        throw new Error(`Default scenario "${defaultScenarioId}" was not found in ${dir}`);
+    }
+    return loaded;
+}
+
+/**
+ * Get a scenario pack by id
+ */
+export function getScenario(id: string): ScenarioPack | undefined {
+    return scenarios.get(id);
+}
+
+/**
+ * Get the default scenario pack
+ */
+export function getDefaultScenario(): ScenarioPack {
+    const pack = scenarios.get(defaultScenarioId);
+    if (!pack) {
+        throw new Error(`Default scenario "${defaultScenarioId}" is not loaded`);
+    }
+    return pack;
+}
+
+/**
+ * Change the default scenario pack
+ */
+export function setDefaultScenario(id: string): void {
+    if (!scenarios.has(id)) {
+        throw new Error(`Unknown scenario "${id}"`);
+    }
+    defaultScenarioId = id;
+}
+
+/**
+ * List all loaded scenario packs
+ */
+export function listScenarios(): ScenarioPack[] {
+    return Array.from(scenarios.values());
+}
+
+/**
+ * Replace `{{turns}}` placeholders in pack text
+ */
+export function renderPackText(text: string, turns: number): string {
+    return text.replace(/\{\{\s*turns\s*\}\}/g, String(turns));
+}
+
+/**
+ * Split a game of the given length into early / mid / late turn ranges
+ */
+export function getPhaseRanges(turns: number): Record<'early' | 'mid' | 'late', [number, number]> {
+    const earlyEnd = Math.max(1, Math.round(turns * 0.3));
+    const midEnd = Math.max(earlyEnd + 1, Math.round(turns * 0.7));
+    return {
+        early: [1, earlyEnd],
+        mid: [earlyEnd + 1, midEnd],
+        late: [midEnd + 1, turns],
+    };
+}
+
+/**
+ * Get the phase a turn falls into
+ */
+export function getPhase(turn: number, turns: number): 'early' | 'mid' | 'late' {
+    const ranges = getPhaseRanges(turns);
+    if (turn <= ranges.early[1]) return 'early';
+    if (turn <= ranges.mid[1]) return 'mid';
+    return 'late';
+}
+
+/**
+ * Get a scenario pack by id, falling back to the default pack
+ */
+export function resolveScenario(id?: string): ScenarioPack {
+    return (id && scenarios.get(id)) || getDefaultScenario();
+}
@@ -0,0 +1,29 @@
+import type { GameScope } from './types';
+
+const GAME_SCOPES: GameScope[] = ['channel', 'space', 'global'];
+
+// What rounds, prize pools, seasons and leaderboards are kept apart by: each channel (default), each space, or nothing
+export const GAME_SCOPE = (process.env.GAME_SCOPE || 'channel') as GameScope;
+if (!GAME_SCOPES.includes(GAME_SCOPE)) {
+    throw new Error(`Unknown GAME_SCOPE "${GAME_SCOPE}". Expected one of ${GAME_SCOPES.join(', ')}.`);
+}
+
+// Scope of every game with GAME_SCOPE=global
+export const GLOBAL_SCOPE_ID = 'global';
+
+// Whether /leaderboard all ranks the current seasons of every scope together
+export const GLOBAL_LEADERBOARD = process.env.GLOBAL_LEADERBOARD === 'on';
+
+/**
+ * Get the scope a channel's games belong to, e.g. "channel:<channelId>" or "space:<spaceId>"
+ */
+export function getScopeId(spaceId: string, channelId: string): string {
+    switch (GAME_SCOPE) {
+        case 'channel':
+            return `channel:${channelId}`;
+        case 'space':
+            return `space:${spaceId}`;
+        case 'global':
+            return GLOBAL_SCOPE_ID;
+    }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import type { PlayerState } from './types';
+import {
+    MIN_TIER_SAMPLE,
+    computeScore,
+    computeScoreBreakdown,
+    createEndingResult,
+    getPercentileTier,
+    getTier,
+    getTierPlacement,
+    listScoreVersions,
+} from './scoring';
+import { createInitialState } from './state';
+import { getScenario } from './scenario';
+
+const scenario = getScenario('room-616')!;
+
+// 100 base + 25 insight + 100 access + 20 trust - 10 sanity lost + 2 morality under v1; v2 adds 5 per turn left
+const finalState: PlayerState = {
+    ...createInitialState(scenario),
+    insight: 50,
+    system_access: 2,
+    trust: 1,
+    sanity: 80,
+    morality: 10,
+    time_remaining: 3,
+};
+
+describe('computeScoreBreakdown', () => {
+    test('lists each weighted component and leaves out zero weights', () => {
+        const breakdown = computeScoreBreakdown(finalState, scenario, 'resident', 'v1');
+        expect(breakdown.components.map(component => [component.id, component.points])).toEqual([
+            ['base', 100],
+            ['insight', 25],
+            ['system_access', 100],
+            ['trust', 20],
+            ['sanity_penalty', -10],
+            ['morality', 2],
+            ['clues', 0],
+        ]);
+        expect(breakdown).toMatchObject({ version: 'v1', subtotal: 237, multiplier: 1, total: 237 });
+    });
+
+    test('scores the same state differently under each version', () => {
+        expect(listScoreVersions()).toEqual(expect.arrayContaining(['v1', 'v2']));
+        expect(computeScore(finalState, scenario, 'resident', 'v1')).toBe(237);
+        expect(computeScore(finalState, scenario, 'resident', 'v2')).toBe(252);
+    });
+
+    test('applies the difficulty multiplier to the subtotal', () => {
+        expect(computeScoreBreakdown(finalState, scenario, 'condemned', 'v1')).toMatchObject({ multiplier: 1.3, total: 308 });
+        expect(computeScore(finalState, scenario, 'guest', 'v1')).toBe(190);
+    });
+
+    test('never goes below zero', () => {
+        const wrecked = { ...finalState, insight: 0, system_access: 0, trust: -3, sanity: 0, morality: -100 };
+        expect(computeScore(wrecked, scenario, 'resident', 'v1')).toBe(0);
+    });
+
+    test('refuses an unknown version', () => {
+        expect(() => computeScore(finalState, scenario, 'resident', 'v0')).toThrow('Unknown score version "v0"');
+    });
+});
+
+describe('tiers', () => {
+    test('use fixed thresholds for small seasons', () => {
+        expect([450, 449, 350, 250, 150, 149].map(getTier)).toEqual(['S', 'A', 'A', 'B', 'C', 'D']);
+        expect(getTierPlacement(300, [300, 120])).toEqual({ tier: 'B' });
+    });
+
+    test('map percentiles onto tiers', () => {
+        expect([5, 5.1, 20, 50, 80, 80.1, 100].map(getPercentileTier)).toEqual(['S', 'A', 'A', 'B', 'C', 'D', 'D']);
+    });
+
+    test('place a score among the season once it is large enough', () => {
+        const season = Array.from({ length: MIN_TIER_SAMPLE }, (_, index) => (index + 1) * 10);
+        const top = season[season.length - 1];
+        expect(getTierPlacement(top, season)).toEqual({ tier: 'S', percentile: Math.round(1000 / season.length) / 10 });
+        expect(getTierPlacement(season[0], season)).toEqual({ tier: 'D', percentile: 100 });
+    });
+
+    test('give tied scores the better placement', () => {
+        const season = Array.from({ length: MIN_TIER_SAMPLE }, () => 200);
+        expect(getTierPlacement(200, season).tier).toBe(getPercentileTier(100 / season.length));
+    });
+});
+
+describe('createEndingResult', () => {
+    const ending = { ending_id: 'E-TEST-01', ending_title: 'Test', ending_text: 'The end.' };
+
+    test('records the breakdown and a fixed tier for a small season', () => {
+        const result = createEndingResult(ending, finalState, scenario, 'resident', 'v2');
+        expect(result).toMatchObject({ ...ending, final_score: 252, tier: 'B' });
+        expect(result.breakdown.version).toBe('v2');
+        expect(result.percentile).toBeUndefined();
+    });
+
+    test('places the score among the earlier season scores', () => {
+        const earlier = Array.from({ length: MIN_TIER_SAMPLE }, () => 100);
+        const result = createEndingResult(ending, finalState, scenario, 'resident', 'v1', earlier);
+        expect(result.tier).toBe('S');
+        expect(result.percentile).toBe(Math.round(1000 / (earlier.length + 1)) / 10);
+    });
+});
@@ -1,25 +1,123 @@
-import type { PlayerState, EndingResult } from './types';
+import type { PlayerState, EndingResult, ScenarioPack, Difficulty, ScoreBreakdown, ScoreComponent, ScoreWeights, Tier, TierPlacement } from './types';
+import { getCluePoints } from './inventory';
+import { DIFFICULTIES } from './difficulty';
+
+// Scoring versions; add new versions (or override unused ones) with SCORE_VERSIONS (JSON)
+const DEFAULT_SCORE_VERSIONS: Record<string, ScoreWeights> = {
+    v1: { base: 100, insight: 0.5, system_access: 50, trust: 20, sanity_penalty: 0.5, morality: 0.2, clues: 1, speed: 0 },
+    v2: { base: 100, insight: 0.5, system_access: 50, trust: 20, sanity_penalty: 0.5, morality: 0.2, clues: 1, speed: 5 },
+};
+
+const WEIGHT_KEYS = Object.keys(DEFAULT_SCORE_VERSIONS.v1) as (keyof ScoreWeights)[];
+
+const scoreVersions: Record<string, ScoreWeights> = {
+    ...DEFAULT_SCORE_VERSIONS,
+    ...(process.env.SCORE_VERSIONS ? JSON.parse(process.env.SCORE_VERSIONS) : {}),
+};
+
+for (const [version, weights] of Object.entries(scoreVersions)) {
+    const missing = WEIGHT_KEYS.filter(key => typeof weights[key] !== 'number' || !Number.isFinite(weights[key]));
+    if (missing.length > 0) {
+        throw new Error(`Score version "${version}" needs numeric weights for ${missing.join(', ')}`);
+    }
+}
+
+// Version new seasons start with; /scoring switches a season to another (see seasons.ts)
+export const DEFAULT_SCORE_VERSION = process.env.SCORE_VERSION || 'v1';
+if (!scoreVersions[DEFAULT_SCORE_VERSION]) {
+    throw new Error(`Unknown SCORE_VERSION "${DEFAULT_SCORE_VERSION}". Expected one of ${Object.keys(scoreVersions).join(', ')}.`);
+}
+
+// Percentile tiers: S is the top 5% of the season's scores, A the next 15%, and so on; the rest are D
+export const TIER_PERCENTILES: [Tier, number][] = [
+    ['S', 5],
+    ['A', 20],
+    ['B', 50],
+    ['C', 80],
+];
+
+// Seasons with fewer finished runs than this use the fixed thresholds of getTier
+export const MIN_TIER_SAMPLE = Number(process.env.MIN_TIER_SAMPLE) || 20;
+
+/**
+ * List the known scoring versions
+ */
+export function listScoreVersions(): string[] {
+    return Object.keys(scoreVersions);
+}
+
+/**
+ * Get the weights of a scoring version
+ */
+export function getScoreWeights(version: string): ScoreWeights | undefined {
+    return scoreVersions[version];
+}
+
+/**
+ * Score a final player state component by component: stats, the points of every clue
+ * found and time left over, scaled by the difficulty's score multiplier
+ */
+export function computeScoreBreakdown(
+    state: PlayerState,
+    scenario: ScenarioPack,
+    difficulty: Difficulty = 'resident',
+    version = DEFAULT_SCORE_VERSION
+): ScoreBreakdown {
+    const weights = scoreVersions[version];
+    if (!weights) {
+        throw new Error(`Unknown score version "${version}"`);
+    }
+    const sanityLost = scenario.stats.sanity.max - state.sanity;
+    const cluePoints = getCluePoints(state, scenario);
+
+    const candidates: ScoreComponent[] = [
+        { id: 'base', label: 'Base', detail: '', points: weights.base },
+        { id: 'insight', label: 'Insight', detail: `${state.insight} × ${weights.insight}`, points: state.insight * weights.insight },
+        {
+            id: 'system_access',
+            label: 'System access',
+            detail: `${state.system_access} × ${weights.system_access}`,
+            points: state.system_access * weights.system_access,
+        },
+        { id: 'trust', label: 'Trust', detail: `${state.trust} × ${weights.trust}`, points: state.trust * weights.trust },
+        {
+            id: 'sanity_penalty',
+            label: 'Sanity lost',
+            detail: `${sanityLost} × -${weights.sanity_penalty}`,
+            points: -sanityLost * weights.sanity_penalty,
+        },
+        { id: 'morality', label: 'Morality', detail: `${state.morality} × ${weights.morality}`, points: state.morality * weights.morality },
+        { id: 'clues', label: 'Clues', detail: `${cluePoints} × ${weights.clues}`, points: cluePoints * weights.clues },
+        {
+            id: 'speed',
+            label: 'Time left',
+            detail: `${state.time_remaining} × ${weights.speed}`,
+            points: state.time_remaining * weights.speed,
+        },
+    ];
+    const components = candidates.filter(component => weights[component.id] !== 0);
+    const subtotal = components.reduce((total, component) => total + component.points, 0);
+    const multiplier = DIFFICULTIES[difficulty].scoreMultiplier;
+
+    return { version, components, subtotal, multiplier, total: Math.max(0, Math.round(subtotal * multiplier)) };
+}
 
 /**
  * Compute authoritative score from final player state
  */
-export function computeScore(state: PlayerState): number {
-    const base = 100;
-    
-    const raw = base +
-        (state.insight / 2) +
-        (state.system_access * 50) +
-        (state.trust * 20) -
-        ((100 - state.sanity) / 2) +
-        (state.morality / 5);
-    
-    return Math.max(0, Math.round(raw));
+export function computeScore(
+    state: PlayerState,
+    scenario: ScenarioPack,
+    difficulty: Difficulty = 'resident',
+    version = DEFAULT_SCORE_VERSION
+): number {
+    return computeScoreBreakdown(state, scenario, difficulty, version).total;
 }
 
 /**
- * Determine tier based on score
+ * Determine tier from fixed score thresholds
  */
-export function getTier(score: number): 'S' | 'A' | 'B' | 'C' | 'D' {
+export function getTier(score: number): Tier {
     if (score >= 450) return 'S';
     if (score >= 350) return 'A';
     if (score >= 250) return 'B';
@@ -28,19 +126,74 @@ export function getTier(score: number): 'S' | 'A' | 'B' | 'C' | 'D' {
 }
 
 /**
- * Create ending result with computed score
+ * Determine tier from a top-share percentile
+ */
+export function getPercentileTier(percentile: number): Tier {
+    return TIER_PERCENTILES.find(([, top]) => percentile <= top)?.[0] ?? 'D';
+}
+
+/**
+ * Place a score among a season's scores, which must include it. Ties share the better
+ * placement. Below MIN_TIER_SAMPLE scores the fixed thresholds are used instead.
+ */
+export function getTierPlacement(score: number, seasonScores: number[]): TierPlacement {
+    if (seasonScores.length < MIN_TIER_SAMPLE) {
+        return { tier: getTier(score) };
+    }
+    const above = seasonScores.filter(other => other > score).length;
+    // Rounded before picking the tier so a logged percentile always gives back the logged tier
+    const percentile = Math.round(((above + 1) / seasonScores.length) * 1000) / 10;
+    return { tier: getPercentileTier(percentile), percentile };
+}
+
+/**
+ * Format a placement for messages, e.g. "A Tier, top 12%"
+ */
+export function formatPlacement(placement: TierPlacement): string {
+    return placement.percentile === undefined ? `${placement.tier} Tier` : `${placement.tier} Tier, top ${placement.percentile}%`;
+}
+
+/**
+ * Create ending result with computed score, its breakdown and its tier among the
+ * season's earlier scores (comparable ones, under the same version)
  */
 export function createEndingResult(
     ending: { ending_id: string; ending_title: string; ending_text: string },
-    finalState: PlayerState
+    finalState: PlayerState,
+    scenario: ScenarioPack,
+    difficulty: Difficulty = 'resident',
+    version = DEFAULT_SCORE_VERSION,
+    seasonScores: number[] = []
 ): EndingResult {
-    const final_score = computeScore(finalState);
-    const tier = getTier(final_score);
-    
+    const breakdown = computeScoreBreakdown(finalState, scenario, difficulty, version);
+    const final_score = breakdown.total;
+    const { tier, percentile } = getTierPlacement(final_score, [...seasonScores, final_score]);
+
     return {
         ...ending,
         final_score,
         tier,
+        ...(percentile !== undefined && { percentile }),
+        breakdown,
     };
 }
 
+/**
+ * Format a score breakdown as a table for chat messages
+ */
+export function formatScoreBreakdown(breakdown: ScoreBreakdown): string {
+    const points = (value: number) => {
+        const rounded = Math.round(value * 10) / 10;
+        return rounded > 0 ? `+${rounded}` : `${rounded}`;
+    };
+    const rows = breakdown.components.map(component => `| ${component.label} | ${component.detail} | ${points(component.points)} |`);
+    if (breakdown.multiplier !== 1) {
+        rows.push(`| Difficulty | ${Math.round(breakdown.subtotal * 10) / 10} × ${breakdown.multiplier} | ×${breakdown.multiplier} |`);
+    }
+    return [
+        `| Component (scoring ${breakdown.version}) | Calculation | Points |`,
+        '|---|---|---|',
+        ...rows,
+        `| **Total** | | **${breakdown.total}** |`,
+    ].join('\n');
+}
@@ -0,0 +1,186 @@
+import type { SeasonRecord } from './types';
+import { DEFAULT_SCORE_VERSION, getScoreWeights } from './scoring';
+import { getStore } from './storage';
+
+const DAY = 24 * 60 * 60_000;
+
+// Days between scheduled rollovers; 0 means seasons only end with /season end
+export const SEASON_LENGTH_DAYS = Number(process.env.SEASON_LENGTH_DAYS ?? 0);
+
+// Entries kept per game length in a season's archived standings
+export const SEASON_ARCHIVE_SIZE = 100;
+
+// Season names are typed into /leaderboard season:<name>, so they are kept short and plain
+export const SEASON_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+
+const seasons = new Map<string, SeasonRecord>(); // seasonId -> season
+const currentSeasons = new Map<string, string>(); // scopeId -> seasonId of the season new rounds belong to
+
+function saveCurrentSeasons(): void {
+    getStore().setSetting('current_seasons', JSON.stringify(Object.fromEntries(currentSeasons)));
+}
+
+function createSeason(scopeId: string, name: string, now: Date): SeasonRecord {
+    // Scopes can start seasons in the same millisecond
+    let id = `season-${now.getTime()}`;
+    for (let n = 2; seasons.has(id); n++) id = `season-${now.getTime()}-${n}`;
+    const season: SeasonRecord = {
+        id,
+        scopeId,
+        name,
+        startedAt: now,
+        ...(SEASON_LENGTH_DAYS > 0 && { endsAt: new Date(now.getTime() + SEASON_LENGTH_DAYS * DAY) }),
+        scoreVersion: DEFAULT_SCORE_VERSION,
+    };
+    seasons.set(season.id, season);
+    currentSeasons.set(scopeId, season.id);
+    getStore().saveSeason(season);
+    saveCurrentSeasons();
+    return season;
+}
+
+function nextSeasonName(scopeId: string): string {
+    let number = listSeasons(scopeId).length + 1;
+    while (findSeason(scopeId, `season-${number}`)) number++;
+    return `season-${number}`;
+}
+
+/**
+ * Get the season a scope's new rounds belong to, starting its first one if there is none yet
+ */
+export function getCurrentSeason(scopeId: string): SeasonRecord {
+    const currentId = currentSeasons.get(scopeId);
+    const current = currentId ? seasons.get(currentId) : undefined;
+    return current ?? createSeason(scopeId, nextSeasonName(scopeId), new Date());
+}
+
+/**
+ * Get the id of the season a scope's new rounds belong to
+ */
+export function getCurrentSeasonId(scopeId: string): string {
+    return getCurrentSeason(scopeId).id;
+}
+
+/**
+ * Get the current season of every scope that has one, e.g. for the all-scopes leaderboard
+ */
+export function getCurrentSeasons(): SeasonRecord[] {
+    return [...currentSeasons.values()].flatMap(seasonId => seasons.get(seasonId) ?? []);
+}
+
+/**
+ * Get a season by id
+ */
+export function getSeason(seasonId: string): SeasonRecord | undefined {
+    return seasons.get(seasonId);
+}
+
+/**
+ * Find one of a scope's seasons by name (case-insensitive) or id
+ */
+export function findSeason(scopeId: string, nameOrId: string): SeasonRecord | undefined {
+    const wanted = nameOrId.trim().toLowerCase();
+    return listSeasons(scopeId).find(season => season.id === wanted || season.name === wanted);
+}
+
+/**
+ * List a scope's seasons, oldest first
+ */
+export function listSeasons(scopeId: string): SeasonRecord[] {
+    return [...seasons.values()]
+        .filter(season => season.scopeId === scopeId)
+        .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
+
+/**
+ * Explain why a name cannot be used for a scope's new season, or null when it can
+ */
+export function checkSeasonName(scopeId: string, name: string): string | null {
+    if (!SEASON_NAME_PATTERN.test(name)) return 'season names are up to 32 lowercase letters, digits and dashes';
+    if (findSeason(scopeId, name)) return `there is already a season called "${name}"`;
+    return null;
+}
+
+/**
+ * Get the scoring version runs finishing in a season are scored with
+ */
+export function getScoreVersion(seasonId: string): string {
+    return seasons.get(seasonId)?.scoreVersion ?? DEFAULT_SCORE_VERSION;
+}
+
+/**
+ * Switch the scoring version for the rest of a season. Scores already recorded keep their version.
+ */
+export function setScoreVersion(seasonId: string, version: string): void {
+    const season = seasons.get(seasonId);
+    if (!season) {
+        throw new Error(`Unknown season "${seasonId}"`);
+    }
+    if (!getScoreWeights(version)) {
+        throw new Error(`Unknown score version "${version}"`);
+    }
+    season.scoreVersion = version;
+    getStore().saveSeason(season);
+}
+
+/**
+ * Get the scopes whose current season has reached its scheduled end
+ */
+export function getScopesDueForRollover(now = new Date()): string[] {
+    return getCurrentSeasons()
+        .filter(({ endsAt }) => endsAt !== undefined && now >= endsAt)
+        .map(season => season.scopeId);
+}
+
+/**
+ * End a scope's current season and start its next one, named automatically unless a name is
+ * given. The ended season keeps its scoring version; its standings are archived once its rounds settle.
+ */
+export function rollOverSeason(
+    scopeId: string,
+    name?: string,
+    now = new Date()
+): { ended: SeasonRecord; started: SeasonRecord } {
+    const problem = name === undefined ? null : checkSeasonName(scopeId, name);
+    if (problem) {
+        throw new Error(`Cannot start season: ${problem}`);
+    }
+    const ended = getCurrentSeason(scopeId);
+    ended.endedAt = now;
+    getStore().saveSeason(ended);
+    const started = createSeason(scopeId, name ?? nextSeasonName(scopeId), now);
+    return { ended, started };
+}
+
+/**
+ * List ended seasons, of every scope, whose final standings have not been archived yet
+ */
+export function getSeasonsAwaitingArchive(): SeasonRecord[] {
+    return [...seasons.values()].filter(season => season.endedAt && !season.archivedAt);
+}
+
+/**
+ * Archive a season's final standings. Archived standings never change.
+ */
+export function archiveSeason(seasonId: string, standings: NonNullable<SeasonRecord['standings']>, now = new Date()): void {
+    const season = seasons.get(seasonId);
+    if (!season || season.archivedAt) return;
+    season.standings = standings;
+    season.archivedAt = now;
+    getStore().saveSeason(season);
+}
+
+/**
+ * Load seasons and each scope's current season from the store. Call once at startup.
+ */
+export function restoreSeasons(): number {
+    const store = getStore();
+    for (const season of store.loadSeasons()) {
+        seasons.set(season.id, season);
+    }
+    const stored: Record<string, string> = JSON.parse(store.getSetting('current_seasons') ?? '{}');
+    for (const [scopeId, seasonId] of Object.entries(stored)) {
+        if (seasons.has(seasonId)) currentSeasons.set(scopeId, seasonId);
+    }
+    return seasons.size;
+}
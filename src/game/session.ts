@@ -1,42 +1,55 @@
-import type { GameSession, RoundState, LeaderboardEntry, EndingResult } from './types';
+import type { GameSession, RoundState, LeaderboardEntry, EndingResult, ScenarioPack, GameLength, Difficulty, TierPlacement, SeasonStanding } from './types';
 import { createInitialState } from './state';
+import { getDefaultScenario, resolveScenario } from './scenario';
+import { DEFAULT_GAME_LENGTH, GAME_LENGTHS, withGameLength } from './length';
+import { DEFAULT_DIFFICULTY, withDifficulty } from './difficulty';
+import { createStoryMemory } from './memory';
+import { computeScoreBreakdown, getTierPlacement } from './scoring';
+import { getStore } from './storage';
+import { addToPrizePool, getRound, joinRound, leaveRound, recordRoundResult, restoreRounds } from './rounds';
+import { SEASON_ARCHIVE_SIZE, getCurrentSeasonId, getCurrentSeasons, getScoreVersion, restoreSeasons } from './seasons';
 
-// In-memory storage (for always-on VPS)
+const MINUTE = 60_000;
+
+// Idle runs get a reminder, then are forfeited; 0 turns either off
+export const IDLE_REMINDER_MS = Number(process.env.IDLE_REMINDER_MINUTES ?? 10) * MINUTE;
+export const IDLE_FORFEIT_MS = Number(process.env.IDLE_FORFEIT_MINUTES ?? 30) * MINUTE;
+
+export interface IdleNotice {
+    kind: 'reminder' | 'forfeit';
+    session: GameSession;
+}
+
+// Working copies of the game state; every change is written through to the store and read back by restoreGameState
 const activeSessions = new Map<string, GameSession>(); // userId -> session
-const rounds = new Map<string, RoundState>(); // roundId -> round
 const leaderboard: LeaderboardEntry[] = [];
-
-let currentRoundId: string | null = null;
-let currentSeasonId = `season-${Date.now()}`;
+const discoveredEndings = new Map<string, Map<string, Date>>(); // userId -> endingId -> first discovered
+const turnsInProgress = new Set<string>(); // sessionIds with a turn being played; a restart ends every turn, so not stored
 
 /**
- * Get or create current round
+ * Load sessions, seasons, rounds, the leaderboard, discovered endings and the current season
+ * and round from the store. Call once at startup, before handling any event.
  */
-export function getCurrentRound(): RoundState {
-    if (!currentRoundId || !rounds.has(currentRoundId)) {
-        // Check if we should start a new round
-        const lastRound = currentRoundId ? rounds.get(currentRoundId) : null;
-        if (lastRound && lastRound.isActive && lastRound.completedPlayers.size === 0) {
-            // Round still active but no one finished yet
-            return lastRound;
+export function restoreGameState(): { sessions: number; seasons: number; rounds: number; leaderboard: number } {
+    const store = getStore();
+    const seasons = restoreSeasons();
+    const rounds = restoreRounds();
+    leaderboard.push(...store.loadLeaderboard());
+    for (const [userId, endings] of store.loadEntries<Map<string, Date>>('discovered_endings')) {
+        discoveredEndings.set(userId, endings);
+    }
+    let restored = 0;
+    for (const session of store.loadSessions()) {
+        if (!session.isActive) {
+            // Finished before the process stopped; its result is already on the leaderboard
+            store.deleteSession(session.userId);
+            continue;
         }
-        
-        // Start new round
-        currentRoundId = `round-${Date.now()}`;
-        const newRound: RoundState = {
-            roundId: currentRoundId,
-            seasonId: currentSeasonId,
-            prizePool: 0n,
-            activePlayers: new Set(),
-            completedPlayers: new Map(),
-            startedAt: new Date(),
-            isActive: true,
-        };
-        rounds.set(currentRoundId, newRound);
-        return newRound;
+        activeSessions.set(session.userId, session);
+        activeSessions.set(session.smartAccountAddress.toLowerCase(), session);
+        restored++;
     }
-    
-    return rounds.get(currentRoundId)!;
+    return { sessions: restored, seasons, rounds, leaderboard: leaderboard.length };
 }
 
 /**
@@ -54,37 +67,63 @@ export function createSession(
     userId: string,
     smartAccountAddress: string,
     channelId: string,
+    scopeId: string,
     tipAmount: bigint = 0n,
-    displayName?: string
+    displayName?: string,
+    scenario: ScenarioPack = getDefaultScenario(),
+    length: GameLength = DEFAULT_GAME_LENGTH,
+    difficulty: Difficulty = DEFAULT_DIFFICULTY
 ): GameSession {
     const sessionId = `sess-${userId}-${Date.now()}`;
+    const round = joinRound(userId, channelId, scopeId);
     const session: GameSession = {
         sessionId,
         userId,
         smartAccountAddress,
         displayName,
         channelId,
-        state: createInitialState(),
+        scopeId,
+        roundId: round.roundId,
+        scenarioId: scenario.id,
+        length,
+        difficulty,
+        state: createInitialState(withDifficulty(withGameLength(scenario, length), difficulty)),
         startedAt: new Date(),
         tipAmount,
         actionHistory: [],
+        memory: createStoryMemory(),
         isActive: true,
+        lastActivityAt: new Date(),
     };
     
     // Store session by both userId and smartAccountAddress for lookups
     activeSessions.set(userId, session);
     activeSessions.set(smartAccountAddress.toLowerCase(), session);
     
-    // Add to current round (only add to prize pool if tipAmount > 0)
-    const round = getCurrentRound();
-    round.activePlayers.add(userId);
+    // Only add to prize pool if tipAmount > 0
     if (tipAmount > 0n) {
-        round.prizePool += tipAmount;
+        addToPrizePool(tipAmount, scopeId, round.roundId);
     }
+    getStore().saveSession(session);
     
     return session;
 }
 
+/**
+ * Get the scenario pack a session is played with, adjusted to its game length and difficulty
+ */
+export function getSessionScenario(session: GameSession): ScenarioPack {
+    return withDifficulty(withGameLength(resolveScenario(session.scenarioId), session.length), session.difficulty);
+}
+
+/**
+ * Get the season a session's result counts for: that of the round it joined, which may have
+ * ended since the run started
+ */
+export function getSessionSeasonId(session: GameSession): string {
+    return getRound(session.roundId)?.seasonId ?? getCurrentSeasonId(session.scopeId);
+}
+
 /**
  * Update session state
  */
@@ -92,83 +131,197 @@ export function updateSession(userId: string, updates: Partial<GameSession>): vo
     const session = activeSessions.get(userId);
     if (session) {
         Object.assign(session, updates);
+        getStore().saveSession(session);
     }
 }
 
 /**
- * End session and add to leaderboard
+ * Start playing a turn of a session. Returns false when another turn of it is still being
+ * played, so two requests never change the same state at once. Call endTurn when done.
  */
-export function endSession(
-    userId: string,
-    ending: { ending_id: string; ending_title: string; ending_text: string },
-    finalScore: number,
-    tier: 'S' | 'A' | 'B' | 'C' | 'D'
-): void {
+export function beginTurn(sessionId: string): boolean {
+    if (turnsInProgress.has(sessionId)) return false;
+    turnsInProgress.add(sessionId);
+    return true;
+}
+
+/**
+ * Finish playing a turn started with beginTurn
+ */
+export function endTurn(sessionId: string): void {
+    turnsInProgress.delete(sessionId);
+}
+
+/**
+ * Check whether a turn of a session is being played
+ */
+export function isTurnInProgress(sessionId: string): boolean {
+    return turnsInProgress.has(sessionId);
+}
+
+/**
+ * Record that a player acted in their run, restarting its idle clock
+ */
+export function touchSession(userId: string, now = new Date()): void {
+    updateSession(userId, { lastActivityAt: now, remindedAt: undefined });
+}
+
+/**
+ * Check whether a run has waited IDLE_FORFEIT_MS for its player and may be forfeited now.
+ * Check again right before forfeiting: the player may have moved since the run was found idle.
+ */
+export function isIdleForfeitDue(session: GameSession, now = new Date()): boolean {
+    return (
+        IDLE_FORFEIT_MS > 0 &&
+        session.isActive &&
+        activeSessions.get(session.userId) === session &&
+        !turnsInProgress.has(session.sessionId) && // Waiting on us, not the player
+        now.getTime() - session.lastActivityAt.getTime() >= IDLE_FORFEIT_MS
+    );
+}
+
+/**
+ * Find active runs that have waited too long for their player. A reminder is due once per
+ * wait, after IDLE_REMINDER_MS; a forfeit after IDLE_FORFEIT_MS, and stays due until the
+ * run is ended.
+ */
+export function checkIdleSessions(now = new Date()): IdleNotice[] {
+    const notices: IdleNotice[] = [];
+    for (const session of new Set(activeSessions.values())) {
+        if (!session.isActive || turnsInProgress.has(session.sessionId)) continue; // Waiting on us, not the player
+        const idle = now.getTime() - session.lastActivityAt.getTime();
+        if (isIdleForfeitDue(session, now)) {
+            notices.push({ kind: 'forfeit', session });
+        } else if (IDLE_REMINDER_MS > 0 && idle >= IDLE_REMINDER_MS && !session.remindedAt) {
+            updateSession(session.userId, { remindedAt: now });
+            notices.push({ kind: 'reminder', session });
+        }
+    }
+    return notices;
+}
+
+/**
+ * End session and add to leaderboard. Returns the round the result competes in, or undefined
+ * when the session's round settled before it finished. The winner is only decided when the
+ * round settles (see advanceRounds).
+ */
+export function endSession(userId: string, result: EndingResult): RoundState | undefined {
     const session = activeSessions.get(userId);
-    if (!session) return;
+    if (!session) return undefined;
     
     session.isActive = false;
-    session.endingId = ending.ending_id;
-    session.finalScore = finalScore;
+    session.endingId = result.ending_id;
+    session.finalScore = result.final_score;
     
-    // Update round
-    const round = getCurrentRound();
-    round.activePlayers.delete(userId);
-    round.completedPlayers.set(userId, {
-        ending_id: ending.ending_id,
-        ending_title: ending.ending_title,
-        ending_text: ending.ending_text,
-        final_score: finalScore,
-        tier,
-    });
+    const round = recordRoundResult(session.roundId, userId, result);
     
     // Add to leaderboard
     const entry: LeaderboardEntry = {
-        season_id: round.seasonId,
+        season_id: getSessionSeasonId(session),
+        round_id: session.roundId,
         session_id: session.sessionId,
+        scenario_id: session.scenarioId,
+        length: session.length,
+        difficulty: session.difficulty,
         wallet: userId,
-        score: finalScore,
-        ending_id: ending.ending_id,
-        tier,
+        score: result.final_score,
+        score_version: result.breakdown.version,
+        breakdown: result.breakdown,
+        final_state: session.state,
+        ending_id: result.ending_id,
+        tier: result.tier,
+        percentile: result.percentile,
         timestamp: new Date(),
     };
     leaderboard.push(entry);
     
-    // Check if round should end (at least one player finished)
-    if (round.completedPlayers.size >= 1) {
-        // Round ends when at least one player finishes
-        round.isActive = false;
-    }
+    const store = getStore();
+    store.addLeaderboardEntry(entry);
+    store.saveSession(session);
+    return round;
+}
+
+/**
+ * Get a leaderboard entry's score under its season's current scoring version. Entries scored
+ * under an older version are rescored from their final state; their recorded score is kept.
+ */
+export function getComparableScore(entry: LeaderboardEntry): number {
+    const version = getScoreVersion(entry.season_id);
+    if (entry.score_version === version) return entry.score;
+    const scenario = withDifficulty(withGameLength(resolveScenario(entry.scenario_id), entry.length), entry.difficulty);
+    return computeScoreBreakdown(entry.final_state, scenario, entry.difficulty, version).total;
 }
 
 /**
- * Get leaderboard for current season
+ * Get the comparable scores of a season's finished runs of one game length: the
+ * distribution percentile tiers are placed in
  */
-export function getLeaderboard(limit = 10): LeaderboardEntry[] {
+export function getSeasonScores(seasonId: string, length: GameLength): number[] {
     return leaderboard
-        .filter(entry => entry.season_id === currentSeasonId)
+        .filter(entry => entry.season_id === seasonId && entry.length === length)
+        .map(getComparableScore);
+}
+
+/**
+ * Get a leaderboard entry's current standing among its season's runs, which moves as more
+ * runs finish. The tier assigned at finish time stays on the entry.
+ */
+export function getCurrentPlacement(entry: LeaderboardEntry): TierPlacement {
+    return getTierPlacement(getComparableScore(entry), getSeasonScores(entry.season_id, entry.length));
+}
+
+/**
+ * Get the leaderboard entries of the runs that finished in a round
+ */
+export function getRoundEntries(roundId: string): LeaderboardEntry[] {
+    return leaderboard.filter(entry => entry.round_id === roundId);
+}
+
+/**
+ * Get leaderboard for a season. Each game length is ranked separately, since longer runs
+ * have more turns to build their stats. Entries are ranked by getComparableScore, so a
+ * mid-season change of scoring version applies to everyone.
+ */
+export function getLeaderboard(seasonId: string, length: GameLength = 'standard', limit = 10): LeaderboardEntry[] {
+    return rankEntries(leaderboard.filter(entry => entry.season_id === seasonId && entry.length === length), limit);
+}
+
+/**
+ * Get the leaderboard across every scope's current season, each run ranked by its comparable
+ * score in its own season
+ */
+export function getGlobalLeaderboard(length: GameLength = 'standard', limit = 10): LeaderboardEntry[] {
+    const seasonIds = new Set(getCurrentSeasons().map(season => season.id));
+    return rankEntries(leaderboard.filter(entry => seasonIds.has(entry.season_id) && entry.length === length), limit);
+}
+
+function rankEntries(entries: LeaderboardEntry[], limit: number): LeaderboardEntry[] {
+    return entries
+        .map(entry => ({ entry, score: getComparableScore(entry) }))
         .sort((a, b) => b.score - a.score)
-        .slice(0, limit);
+        .slice(0, limit)
+        .map(({ entry }) => entry);
 }
 
 /**
- * Get round winner (highest score)
+ * Get a season's final standings for every game length, for archiving when the season ends
  */
-export function getRoundWinner(roundId: string): { userId: string; result: EndingResult } | null {
-    const round = rounds.get(roundId);
-    if (!round || round.completedPlayers.size === 0) return null;
-    
-    let winner: { userId: string; result: EndingResult } | null = null;
-    let highestScore = -1;
-    
-    for (const [userId, result] of round.completedPlayers.entries()) {
-        if (result.final_score > highestScore) {
-            highestScore = result.final_score;
-            winner = { userId, result };
-        }
+export function getSeasonStandings(seasonId: string): Partial<Record<GameLength, SeasonStanding[]>> {
+    const standings: Partial<Record<GameLength, SeasonStanding[]>> = {};
+    for (const length of Object.keys(GAME_LENGTHS) as GameLength[]) {
+        const entries = getLeaderboard(seasonId, length, SEASON_ARCHIVE_SIZE);
+        if (entries.length === 0) continue;
+        standings[length] = entries.map((entry, index) => ({
+            rank: index + 1,
+            wallet: entry.wallet,
+            session_id: entry.session_id,
+            score: getComparableScore(entry),
+            tier: getCurrentPlacement(entry).tier,
+            ending_id: entry.ending_id,
+            difficulty: entry.difficulty,
+        }));
     }
-    
-    return winner;
+    return standings;
 }
 
 /**
@@ -177,9 +330,14 @@ export function getRoundWinner(roundId: string): { userId: string; result: Endin
 export function clearSession(identifier: string): void {
     const session = getSession(identifier);
     if (session) {
+        if (session.isActive) {
+            // Ended without a result (e.g. it failed to start), so its round must not wait for it
+            leaveRound(session.roundId, session.userId);
+        }
         // Remove from both userId and smartAccountAddress lookups
         activeSessions.delete(session.userId);
         activeSessions.delete(session.smartAccountAddress.toLowerCase());
+        getStore().deleteSession(session.userId);
     } else {
         // Fallback: try direct deletion
         activeSessions.delete(identifier);
@@ -187,3 +345,26 @@ export function clearSession(identifier: string): void {
     }
 }
 
+/**
+ * Record that a player reached an ending. Returns true the first time they reach it.
+ */
+export function recordEndingDiscovery(userId: string, endingId: string): boolean {
+    let endings = discoveredEndings.get(userId);
+    if (!endings) {
+        endings = new Map();
+        discoveredEndings.set(userId, endings);
+    }
+    if (endings.has(endingId)) {
+        return false;
+    }
+    endings.set(endingId, new Date());
+    getStore().saveEntry('discovered_endings', userId, endings);
+    return true;
+}
+
+/**
+ * Get the endings a player has discovered, as `endingId -> first discovered`
+ */
+export function getDiscoveredEndings(userId: string): Map<string, Date> {
+    return discoveredEndings.get(userId) ?? new Map<string, Date>();
+}
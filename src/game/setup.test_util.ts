@@ -0,0 +1,5 @@
+import { loadScenarioPacks } from './scenario';
+
+// An empty DATABASE_PATH selects the in-memory store, so tests never touch data/
+process.env.DATABASE_PATH = '';
+loadScenarioPacks();
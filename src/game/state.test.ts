@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import type { PlayerState, ScenarioPack, StateAdjustment } from './types';
+import { applyStateChanges, createInitialState, getDecay, getMaxChange, getMaxGain } from './state';
+import { getScenario } from './scenario';
+import { withDifficulty } from './difficulty';
+
+const scenario = getScenario('room-616')!;
+
+function stateAt(overrides: Partial<PlayerState> = {}): PlayerState {
+    return { ...createInitialState(scenario), ...overrides };
+}
+
+describe('limits', () => {
+    test('default to a share of each stat range, at least 1', () => {
+        expect(getMaxChange(scenario, 'insight')).toBe(15);
+        expect(getMaxChange(scenario, 'time_remaining')).toBe(2);
+        expect(getMaxChange(scenario, 'system_access')).toBe(1);
+        expect(getMaxGain(scenario, 'insight')).toBe(15);
+    });
+
+    test('spread fractional decay over the turns', () => {
+        const guest = withDifficulty(scenario, 'guest');
+        const drops = [1, 2, 3, 4, 5, 6, 7, 8].map(turn => getDecay(guest, 'time_remaining', turn));
+        expect(drops).toEqual([0, 1, 1, 1, 0, 1, 1, 1]);
+    });
+});
+
+describe('applyStateChanges', () => {
+    test('applies deltas within the caps exactly, advances the turn and runs the clock down', () => {
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt(), { insight: 10, sanity: -5 }, scenario, adjustments);
+        expect(next.insight).toBe(10);
+        expect(next.sanity).toBe(95);
+        expect(next.turn).toBe(2);
+        expect(next.time_remaining).toBe(11);
+        expect(adjustments).toEqual([]);
+    });
+
+    test('caps gains and losses at the per-turn limit and records each cap', () => {
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt({ insight: 50 }), { insight: 40, sanity: -40 }, scenario, adjustments);
+        expect(next.insight).toBe(65);
+        expect(next.sanity).toBe(85);
+        expect(adjustments).toEqual([
+            { key: 'sanity', requested: -40, applied: -15, kind: 'capped', reason: 'at most ±15 per turn' },
+            { key: 'insight', requested: 40, applied: 15, kind: 'capped', reason: 'at most ±15 per turn' },
+        ]);
+    });
+
+    test('caps gains separately when the pack sets max_gain', () => {
+        const stingy: ScenarioPack = { ...scenario, stats: { ...scenario.stats, insight: { ...scenario.stats.insight, max_gain: 5 } } };
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt({ insight: 50 }), { insight: 10 }, stingy, adjustments);
+        expect(next.insight).toBe(55);
+        expect(adjustments).toEqual([{ key: 'insight', requested: 10, applied: 5, kind: 'capped', reason: 'gains of at most +5 per turn' }]);
+        expect(applyStateChanges(stateAt({ insight: 50 }), { insight: -15 }, stingy).insight).toBe(35);
+    });
+
+    test('clamps results to the stat range', () => {
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt({ trust: 3 }), { trust: 1 }, scenario, adjustments);
+        expect(next.trust).toBe(3);
+        expect(adjustments).toEqual([{ key: 'trust', requested: 1, applied: 0, kind: 'clamped', reason: 'must stay within -3 to 3' }]);
+    });
+
+    test('rejects ids outside the scenario vocabulary', () => {
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt(), { items_gained: ['loose-bolt', 'crowbar'] }, scenario, adjustments);
+        expect(next.inventory).toEqual(['loose-bolt']);
+        expect(adjustments).toHaveLength(1);
+        expect(adjustments[0]).toMatchObject({ key: 'items_gained', requested: 'crowbar', applied: null, kind: 'rejected' });
+    });
+
+    test('keeps the clock and full access from ending the game early', () => {
+        const adjustments: StateAdjustment[] = [];
+        const next = applyStateChanges(stateAt({ turn: 5, time_remaining: 2, system_access: 2 }), { time_remaining: -2, system_access: 1 }, scenario, adjustments);
+        expect(next.time_remaining).toBe(1);
+        expect(next.system_access).toBe(2);
+        expect(adjustments.filter(adjustment => adjustment.kind === 'safety')).toEqual([
+            { key: 'time_remaining', requested: -2, applied: -1, kind: 'safety', reason: 'time cannot run out before turn 10' },
+            { key: 'system_access', requested: 1, applied: 0, kind: 'safety', reason: 'full access cannot be reached before turn 10' },
+        ]);
+    });
+
+    test('lets the game end on the final turn', () => {
+        const next = applyStateChanges(stateAt({ turn: 9, time_remaining: 1, system_access: 2 }), { system_access: 1 }, scenario);
+        expect(next.turn).toBe(10);
+        expect(next.time_remaining).toBe(0);
+        expect(next.system_access).toBe(3);
+    });
+
+    test('never changes the state it was given', () => {
+        const before = stateAt();
+        const copy = structuredClone(before);
+        applyStateChanges(before, { insight: 10, items_gained: ['loose-bolt'] }, scenario);
+        expect(before).toEqual(copy);
+    });
+});
@@ -1,95 +1,168 @@
-import type { PlayerState, GameSession, RoundState } from './types';
+import type { PlayerState, ScenarioPack, StateAdjustment, StateChanges, StatKey } from './types';
+import { STAT_KEYS } from './scenario';
+import { applyInventoryChanges } from './inventory';
+import { applyEffectChanges, tickEffects } from './effects';
+
+// Share of a stat's range the model may move it in one turn, unless the pack sets max_change
+const DEFAULT_MAX_CHANGE_SHARE = 0.15;
 
 /**
- * Create initial player state
+ * Create initial player state from the scenario's stat definitions
  */
-export function createInitialState(): PlayerState {
+export function createInitialState(scenario: ScenarioPack): PlayerState {
+    const { stats } = scenario;
     return {
-        time_remaining: 12,
-        trust: 0,
-        sanity: 100,
-        insight: 0,
-        system_access: 0,
-        morality: 0,
+        time_remaining: stats.time_remaining.initial,
+        trust: stats.trust.initial,
+        sanity: stats.sanity.initial,
+        insight: stats.insight.initial,
+        system_access: stats.system_access.initial,
+        morality: stats.morality.initial,
         turn: 1,
+        inventory: [],
+        clues: [],
+        status_effects: [],
     };
 }
 
 /**
- * Apply state changes from GPT response
+ * Largest change the model may make to a stat in one turn
+ */
+export function getMaxChange(scenario: ScenarioPack, key: StatKey): number {
+    const stat = scenario.stats[key];
+    return stat.max_change ?? Math.max(1, Math.round((stat.max - stat.min) * DEFAULT_MAX_CHANGE_SHARE));
+}
+
+/**
+ * Largest increase the model may make to a stat in one turn
+ */
+export function getMaxGain(scenario: ScenarioPack, key: StatKey): number {
+    return scenario.stats[key].max_gain ?? getMaxChange(scenario, key);
+}
+
+/**
+ * Average amount a stat drops on its own each turn
+ */
+export function getDecayRate(scenario: ScenarioPack, key: StatKey): number {
+    return scenario.stats[key].decay ?? (key === 'time_remaining' ? 1 : 0);
+}
+
+/**
+ * How much a stat drops on its own when the given turn ends. Fractional decay rates are
+ * spread over the turns (a rate of 1.5 drops 1, 2, 1, 2, ...), so replays give the same result.
+ */
+export function getDecay(scenario: ScenarioPack, key: StatKey, turn: number): number {
+    const rate = getDecayRate(scenario, key);
+    return Math.floor(turn * rate) - Math.floor((turn - 1) * rate);
+}
+
+/**
+ * Apply state changes from a model response. Stat values are deltas: each is capped at the
+ * stat's max change (or max gain) per turn, then the result is clamped to the scenario's range.
+ * Active status effects apply their modifiers and count down. The turn advances by one and
+ * decaying stats (time_remaining by default) drop on top of any delta given for them. Every
+ * change not applied exactly as requested is appended to adjustments with the reason.
  */
 export function applyStateChanges(
     currentState: PlayerState,
-    changes: Partial<PlayerState>
+    changes: StateChanges,
+    scenario: ScenarioPack,
+    adjustments: StateAdjustment[] = []
 ): PlayerState {
-    const newState = { ...currentState };
-    
-    // Apply deltas
-    if (changes.time_remaining !== undefined) {
-        newState.time_remaining = Math.max(0, Math.min(12, changes.time_remaining));
-    }
-    if (changes.trust !== undefined) {
-        newState.trust = Math.max(-3, Math.min(3, changes.trust));
-    }
-    if (changes.sanity !== undefined) {
-        newState.sanity = Math.max(0, Math.min(100, changes.sanity));
-    }
-    if (changes.insight !== undefined) {
-        newState.insight = Math.max(0, Math.min(100, changes.insight));
-    }
-    if (changes.system_access !== undefined) {
-        newState.system_access = Math.max(0, Math.min(3, changes.system_access));
-    }
-    if (changes.morality !== undefined) {
-        newState.morality = Math.max(-100, Math.min(100, changes.morality));
-    }
-    if (changes.turn !== undefined) {
-        newState.turn = changes.turn;
-    } else {
-        newState.turn += 1;
+    let newState = applyInventoryChanges(currentState, changes, scenario, adjustments);
+    const { stats } = scenario;
+
+    for (const key of STAT_KEYS) {
+        const requested = changes[key];
+        if (requested === undefined) continue;
+        const { min, max } = stats[key];
+        const limit = getMaxChange(scenario, key);
+        const gainLimit = getMaxGain(scenario, key);
+        let delta = requested;
+        if (delta > gainLimit) {
+            delta = gainLimit;
+            const reason = gainLimit !== limit ? `gains of at most +${gainLimit} per turn` : `at most ±${limit} per turn`;
+            adjustments.push({ key, requested, applied: delta, kind: 'capped', reason });
+        } else if (delta < -limit) {
+            delta = -limit;
+            adjustments.push({ key, requested, applied: delta, kind: 'capped', reason: `at most ±${limit} per turn` });
+        }
+        const value = Math.max(min, Math.min(max, newState[key] + delta));
+        if (value !== newState[key] + delta) {
+            const applied = value - newState[key];
+            adjustments.push({ key, requested, applied, kind: 'clamped', reason: `must stay within ${min} to ${max}` });
+        }
+        newState[key] = value;
     }
-    
-    // Decrement time_remaining if not explicitly set
-    if (changes.time_remaining === undefined) {
-        newState.time_remaining = Math.max(0, newState.time_remaining - 1);
+
+    // Effects that were active this turn apply and count down; new ones start next turn
+    newState = applyEffectChanges(tickEffects(newState, scenario), changes, scenario, adjustments);
+
+    // The clock runs down every turn, and on harder difficulties so does sanity
+    newState.turn = currentState.turn + 1;
+    for (const key of STAT_KEYS) {
+        const decay = getDecay(scenario, key, currentState.turn);
+        if (decay !== 0) {
+            newState[key] = Math.max(stats[key].min, Math.min(stats[key].max, newState[key] - decay));
+        }
     }
-    
-    // SAFETY: Prevent game from ending before turn 10
+
+    // SAFETY: Prevent game from ending before the final turn
     // Force minimum values to keep game going
-    if (newState.turn < 10) {
-        // Ensure time_remaining is at least 1 before turn 10
-        if (newState.time_remaining <= 0) {
-            newState.time_remaining = 1;
-            console.warn(`Safety: Prevented time_remaining from reaching 0 at turn ${newState.turn}`);
+    if (newState.turn < scenario.turns) {
+        // Ensure time_remaining stays above its minimum before the final turn
+        if (newState.time_remaining <= stats.time_remaining.min) {
+            const requested = newState.time_remaining - currentState.time_remaining;
+            newState.time_remaining = stats.time_remaining.min + 1;
+            adjustments.push({
+                key: 'time_remaining',
+                requested,
+                applied: newState.time_remaining - currentState.time_remaining,
+                kind: 'safety',
+                reason: `time cannot run out before turn ${scenario.turns}`,
+            });
         }
-        // Ensure system_access is at most 2 before turn 10
-        if (newState.system_access >= 3) {
-            newState.system_access = 2;
-            console.warn(`Safety: Prevented system_access from reaching 3 at turn ${newState.turn}`);
+        // Ensure system_access stays below full access before the final turn
+        if (newState.system_access >= stats.system_access.max) {
+            const requested = newState.system_access - currentState.system_access;
+            newState.system_access = stats.system_access.max - 1;
+            adjustments.push({
+                key: 'system_access',
+                requested,
+                applied: newState.system_access - currentState.system_access,
+                kind: 'safety',
+                reason: `full access cannot be reached before turn ${scenario.turns}`,
+            });
         }
     }
-    
+
     return newState;
 }
 
+/**
+ * The state a forfeited run ends in: the clock runs out, so a forfeit never scores time left over
+ */
+export function createForfeitState(state: PlayerState, scenario: ScenarioPack): PlayerState {
+    return { ...state, time_remaining: scenario.stats.time_remaining.min };
+}
+
 /**
  * Check if game should end
- * Game must last exactly 10 turns
+ * Game must last exactly the scenario's number of turns
  */
-export function shouldEndGame(state: PlayerState): boolean {
-    // Must have at least 10 turns
-    if (state.turn < 10) {
+export function shouldEndGame(state: PlayerState, scenario: ScenarioPack): boolean {
+    // Must reach the final turn
+    if (state.turn < scenario.turns) {
         return false;
     }
-    
-    // After turn 10, can end if:
-    // - Reached max turns (10)
+
+    // After the final turn, can end if:
+    // - Reached max turns
     // - Time ran out
     // - Achieved full system access
     return (
-        state.turn >= 10 ||
-        state.time_remaining <= 0 ||
-        state.system_access >= 3
+        state.turn >= scenario.turns ||
+        state.time_remaining <= scenario.stats.time_remaining.min ||
+        state.system_access >= scenario.stats.system_access.max
     );
 }
-
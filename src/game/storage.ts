@@ -0,0 +1,326 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { GameSession, LeaderboardEntry, RoundState, SeasonRecord } from './types';
+import type { RunEvent } from './runlog';
+
+/**
+ * Durable storage for everything a restart must not lose: live sessions, rounds and their
+ * prize pools, the leaderboard, seasons and their archives, run logs, and small keyed
+ * collections such as the scene buttons players can still press. Writes are synchronous so nothing
+ * reported to a player is lost if the process dies right after.
+ */
+export interface GameStore {
+    name: string;
+    loadSessions(): GameSession[];
+    saveSession(session: GameSession): void;
+    deleteSession(userId: string): void;
+    loadRounds(): RoundState[];
+    saveRound(round: RoundState): void;
+    loadLeaderboard(): LeaderboardEntry[];
+    addLeaderboardEntry(entry: LeaderboardEntry): void;
+    loadSeasons(): SeasonRecord[];
+    saveSeason(season: SeasonRecord): void;
+    loadRunEvents(sessionId: string): RunEvent[];
+    appendRunEvent(event: RunEvent): void;
+    /** Find the session id of a player's most recently started run */
+    findLatestRunId(userId: string): string | undefined;
+    /** Read a keyed collection, e.g. "last_choices" */
+    loadEntries<T>(collection: string): Map<string, T>;
+    saveEntry(collection: string, key: string, value: unknown): void;
+    deleteEntry(collection: string, key: string): void;
+    getSetting(key: string): string | undefined;
+    setSetting(key: string, value: string): void;
+}
+
+// Each migration runs once, in order, inside a transaction; PRAGMA user_version counts the ones applied
+const MIGRATIONS: string[] = [
+    `CREATE TABLE sessions (
+        user_id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE rounds (
+        round_id TEXT PRIMARY KEY,
+        scope_id TEXT NOT NULL,
+        season_id TEXT NOT NULL,
+        prize_pool TEXT NOT NULL,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE leaderboard (
+        session_id TEXT PRIMARY KEY,
+        season_id TEXT NOT NULL,
+        length TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        data TEXT NOT NULL
+    );
+    CREATE INDEX leaderboard_season ON leaderboard (season_id, length);
+    CREATE TABLE entries (
+        collection TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (collection, key)
+    );
+    CREATE TABLE seasons (
+        season_id TEXT PRIMARY KEY,
+        scope_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        data TEXT NOT NULL,
+        UNIQUE (scope_id, name)
+    );
+    CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+    );`,
+    `CREATE TABLE run_events (
+        session_id TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        user_id TEXT, -- Set on session_started events, to find a player's runs
+        data TEXT NOT NULL,
+        PRIMARY KEY (session_id, seq)
+    );
+    CREATE INDEX run_events_user ON run_events (user_id);`,
+];
+
+/**
+ * Serialize a value to JSON, keeping the bigints, dates, sets and maps game state is made of
+ */
+export function encode(value: unknown): string {
+    return JSON.stringify(value, function (this: Record<string, unknown>, key: string, current: unknown) {
+        const original = this[key]; // Dates have already been turned into strings by toJSON
+        if (typeof original === 'bigint') return { $bigint: original.toString() };
+        if (original instanceof Date) return { $date: original.toISOString() };
+        if (original instanceof Set) return { $set: [...original] };
+        if (original instanceof Map) return { $map: [...original] };
+        return current;
+    });
+}
+
+/**
+ * Parse JSON written by encode
+ */
+export function decode<T>(text: string): T {
+    return JSON.parse(text, (_key, value: unknown) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) return value;
+        const tagged = value as { $bigint?: string; $date?: string; $set?: unknown[]; $map?: [unknown, unknown][] };
+        if (tagged.$bigint !== undefined) return BigInt(tagged.$bigint);
+        if (tagged.$date !== undefined) return new Date(tagged.$date);
+        if (tagged.$set !== undefined) return new Set(tagged.$set);
+        if (tagged.$map !== undefined) return new Map(tagged.$map);
+        return value;
+    }) as T;
+}
+
+/**
+ * Keep nothing across restarts (DATABASE_PATH set to an empty string), e.g. for local experiments
+ */
+export function createMemoryStore(): GameStore {
+    const settings = new Map<string, string>();
+    return {
+        name: 'memory',
+        loadSessions: () => [],
+        saveSession: () => {},
+        deleteSession: () => {},
+        loadRounds: () => [],
+        saveRound: () => {},
+        loadLeaderboard: () => [],
+        addLeaderboardEntry: () => {},
+        loadSeasons: () => [],
+        saveSeason: () => {},
+        loadRunEvents: () => [],
+        appendRunEvent: () => {},
+        findLatestRunId: () => undefined,
+        loadEntries: () => new Map(),
+        saveEntry: () => {},
+        deleteEntry: () => {},
+        getSetting: key => settings.get(key),
+        setSetting: (key, value) => {
+            settings.set(key, value);
+        },
+    };
+}
+
+/**
+ * Store game state in an SQLite database file, migrating its schema on open
+ */
+export function createSqliteStore(path: string): GameStore {
+    if (path !== ':memory:') {
+        mkdirSync(dirname(path), { recursive: true });
+    }
+    const db = new Database(path, { create: true, strict: true });
+    db.exec('PRAGMA journal_mode = WAL;');
+    db.exec('PRAGMA synchronous = FULL;'); // Prize pools hold real tips: every commit reaches the disk
+    migrate(db);
+
+    const now = () => new Date().toISOString();
+    const saveSession = db.query(
+        `INSERT INTO sessions (user_id, session_id, data, updated_at) VALUES ($userId, $sessionId, $data, $updatedAt)
+        ON CONFLICT (user_id) DO UPDATE SET session_id = excluded.session_id, data = excluded.data, updated_at = excluded.updated_at`
+    );
+    const saveRound = db.query(
+        `INSERT INTO rounds (round_id, scope_id, season_id, prize_pool, data, updated_at) VALUES ($roundId, $scopeId, $seasonId, $prizePool, $data, $updatedAt)
+        ON CONFLICT (round_id) DO UPDATE SET prize_pool = excluded.prize_pool, data = excluded.data, updated_at = excluded.updated_at`
+    );
+    const addLeaderboardEntry = db.query(
+        `INSERT OR IGNORE INTO leaderboard (session_id, season_id, length, score, data) VALUES ($sessionId, $seasonId, $length, $score, $data)`
+    );
+    const saveSeason = db.query(
+        `INSERT INTO seasons (season_id, scope_id, name, data) VALUES ($seasonId, $scopeId, $name, $data)
+        ON CONFLICT (season_id) DO UPDATE SET name = excluded.name, data = excluded.data`
+    );
+    // Run logs are append-only: an event that is already stored is never replaced
+    const appendRunEvent = db.query(
+        `INSERT INTO run_events (session_id, seq, type, user_id, data) VALUES ($sessionId, $seq, $type, $userId, $data)`
+    );
+    const saveEntry = db.query(
+        `INSERT INTO entries (collection, key, data) VALUES ($collection, $key, $data)
+        ON CONFLICT (collection, key) DO UPDATE SET data = excluded.data`
+    );
+    const setSetting = db.query(
+        `INSERT INTO settings (key, value) VALUES ($key, $value) ON CONFLICT (key) DO UPDATE SET value = excluded.value`
+    );
+
+    return {
+        name: `sqlite (${path})`,
+        loadSessions: () =>
+            db
+                .query('SELECT data FROM sessions ORDER BY updated_at')
+                .all()
+                .map(row => decode<GameSession>((row as { data: string }).data)),
+        saveSession: session => {
+            saveSession.run({ userId: session.userId, sessionId: session.sessionId, data: encode(session), updatedAt: now() });
+        },
+        deleteSession: userId => {
+            db.query('DELETE FROM sessions WHERE user_id = $userId').run({ userId });
+        },
+        loadRounds: () =>
+            db
+                .query('SELECT data FROM rounds ORDER BY rowid')
+                .all()
+                .map(row => decode<RoundState>((row as { data: string }).data)),
+        saveRound: round => {
+            saveRound.run({
+                roundId: round.roundId,
+                scopeId: round.scopeId,
+                seasonId: round.seasonId,
+                prizePool: round.prizePool.toString(),
+                data: encode(round),
+                updatedAt: now(),
+            });
+        },
+        loadLeaderboard: () =>
+            db
+                .query('SELECT data FROM leaderboard ORDER BY rowid')
+                .all()
+                .map(row => decode<LeaderboardEntry>((row as { data: string }).data)),
+        addLeaderboardEntry: entry => {
+            addLeaderboardEntry.run({
+                sessionId: entry.session_id,
+                seasonId: entry.season_id,
+                length: entry.length,
+                score: entry.score,
+                data: encode(entry),
+            });
+        },
+        loadSeasons: () =>
+            db
+                .query('SELECT data FROM seasons ORDER BY rowid')
+                .all()
+                .map(row => decode<SeasonRecord>((row as { data: string }).data)),
+        saveSeason: season => {
+            saveSeason.run({ seasonId: season.id, scopeId: season.scopeId, name: season.name, data: encode(season) });
+        },
+        loadRunEvents: sessionId =>
+            db
+                .query('SELECT data FROM run_events WHERE session_id = $sessionId ORDER BY seq')
+                .all({ sessionId })
+                .map(row => decode<RunEvent>((row as { data: string }).data)),
+        appendRunEvent: event => {
+            appendRunEvent.run({
+                sessionId: event.sessionId,
+                seq: event.seq,
+                type: event.type,
+                userId: event.type === 'session_started' ? event.userId : null,
+                data: encode(event),
+            });
+        },
+        findLatestRunId: userId => {
+            const row = db
+                .query('SELECT session_id FROM run_events WHERE user_id = $userId ORDER BY rowid DESC LIMIT 1')
+                .get({ userId }) as { session_id: string } | null;
+            return row?.session_id;
+        },
+        loadEntries: <T>(collection: string) =>
+            new Map(
+                db
+                    .query('SELECT key, data FROM entries WHERE collection = $collection ORDER BY rowid')
+                    .all({ collection })
+                    .map(row => {
+                        const { key, data } = row as { key: string; data: string };
+                        return [key, decode<T>(data)] as const;
+                    })
+            ),
+        saveEntry: (collection, key, value) => {
+            saveEntry.run({ collection, key, data: encode(value) });
+        },
+        deleteEntry: (collection, key) => {
+            db.query('DELETE FROM entries WHERE collection = $collection AND key = $key').run({ collection, key });
+        },
+        getSetting: key => {
+            const row = db.query('SELECT value FROM settings WHERE key = $key').get({ key }) as { value: string } | null;
+            return row?.value;
+        },
+        setSetting: (key, value) => {
+            setSetting.run({ key, value });
+        },
+    };
+}
+
+function migrate(db: Database): void {
+    const { user_version: applied } = db.query('PRAGMA user_version').get() as { user_version: number };
+    if (applied > MIGRATIONS.length) {
+        throw new Error(`Database schema version ${applied} is newer than this bot (${MIGRATIONS.length}); refusing to open it`);
+    }
+    MIGRATIONS.slice(applied).forEach((migration, index) => {
+        db.transaction(() => {
+            db.exec(migration);
+            db.exec(`PRAGMA user_version = ${applied + index + 1}`);
+        })();
+        console.log(`Applied storage migration ${applied + index + 1}`);
+    });
+}
+
+let store: GameStore | null = null;
+
+/**
+ * Get the game store selected by DATABASE_PATH (an SQLite file, or an empty string to keep
+ * nothing), opening it on first use
+ */
+export function getStore(): GameStore {
+    if (!store) {
+        const path = process.env.DATABASE_PATH ?? 'data/room616.db';
+        store = path === '' ? createMemoryStore() : createSqliteStore(path);
+    }
+    return store;
+}
+
+/**
+ * A Map whose writes go through to a keyed collection in the store, loaded from it when created
+ */
+export function createPersistentMap<T>(collection: string): Map<string, T> {
+    const map = getStore().loadEntries<T>(collection);
+    const set = map.set.bind(map);
+    const remove = map.delete.bind(map);
+    map.set = (key, value) => {
+        getStore().saveEntry(collection, key, value);
+        return set(key, value);
+    };
+    map.delete = key => {
+        getStore().deleteEntry(collection, key);
+        return remove(key);
+    };
+    return map;
+}
@@ -0,0 +1,297 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+    PlayerState,
+    ScenarioPack,
+    StatKey,
+    StoryChoice,
+    StoryGraph,
+    StoryNode,
+    StoryProgress,
+    GPTSceneResponse,
+    GPTEndingResponse,
+} from './types';
+import { STAT_KEYS, getScenario } from './scenario';
+import { ENDING_ID_PATTERN, MAX_CHOICES, isRecord } from './validation';
+import { checkConditions, isUnconditional, validateConditions } from './conditions';
+import { applyInventoryChanges, isInventoryChangeKey } from './inventory';
+import { applyEffectChanges, isEffectChangeKey } from './effects';
+
+// Loaded story graphs
+const stories = new Map<string, StoryGraph>(); // storyId -> graph
+
+/**
+ * Thrown when a story graph file is malformed
+ */
+export class StoryGraphError extends Error {
+    constructor(
+        public readonly source: string,
+        public readonly issues: string[]
+    ) {
+        super(`Invalid story graph ${source}: ${issues.join('; ')}`);
+        this.name = 'StoryGraphError';
+    }
+}
+
+function checkEffects(issues: string[], field: string, value: unknown, scenario: ScenarioPack | undefined): void {
+    if (value === undefined) return;
+    if (!isRecord(value)) {
+        issues.push(`${field} must be an object`);
+        return;
+    }
+    for (const [key, delta] of Object.entries(value)) {
+        if (isInventoryChangeKey(key) || isEffectChangeKey(key)) {
+            const vocabulary = isEffectChangeKey(key)
+                ? scenario?.status_effects
+                : key === 'clues_found'
+                  ? scenario?.clues
+                  : scenario?.items;
+            if (!Array.isArray(delta) || !delta.every(id => typeof id === 'string')) {
+                issues.push(`${field}.${key} must be an array of ids`);
+            } else if (vocabulary) {
+                for (const id of delta.filter(id => !vocabulary.some(known => known.id === id))) {
+                    issues.push(`${field}.${key} contains unknown id "${id}"`);
+                }
+            }
+        } else if (!STAT_KEYS.includes(key as StatKey)) {
+            issues.push(`${field}.${key} is not a known stat`);
+        } else if (typeof delta !== 'number' || !Number.isFinite(delta)) {
+            issues.push(`${field}.${key} must be a number`);
+        }
+    }
+}
+
+/**
+ * Validate a parsed story graph and return it typed, or throw StoryGraphError
+ */
+export function validateStoryGraph(value: unknown, source = 'story'): StoryGraph {
+    if (!isRecord(value)) {
+        throw new StoryGraphError(source, ['story must be a JSON object']);
+    }
+    const issues: string[] = [];
+
+    for (const field of ['id', 'name', 'description', 'scenario', 'fallback_ending']) {
+        if (typeof value[field] !== 'string' || value[field].trim() === '') {
+            issues.push(`${field} must be a non-empty string`);
+        }
+    }
+    if (value.mode !== 'authored' && value.mode !== 'hybrid') {
+        issues.push('mode must be "authored" or "hybrid"');
+    }
+    const scenario = typeof value.scenario === 'string' ? getScenario(value.scenario) : undefined;
+    if (!scenario) {
+        issues.push(`scenario "${String(value.scenario)}" is not a loaded scenario pack`);
+    }
+
+    if (!isRecord(value.nodes) || Object.keys(value.nodes).length === 0) {
+        throw new StoryGraphError(source, [...issues, 'nodes must be a non-empty object']);
+    }
+    const nodes = value.nodes;
+    const isEndingNode = (id: unknown) => typeof id === 'string' && isRecord(nodes[id]) && isRecord(nodes[id].ending);
+
+    for (const [id, node] of Object.entries(nodes)) {
+        const field = `nodes.${id}`;
+        if (!isRecord(node) || typeof node.text !== 'string' || node.text.trim() === '') {
+            issues.push(`${field}.text must be a non-empty string`);
+            continue;
+        }
+        if (isRecord(node.ending)) {
+            const { ending } = node;
+            if (typeof ending.id !== 'string' || !ENDING_ID_PATTERN.test(ending.id)) {
+                issues.push(`${field}.ending.id must look like "E-GLASS-CORRIDOR-07"`);
+            } else if (scenario && !scenario.endings.some(entry => entry.id === ending.id)) {
+                issues.push(`${field}.ending.id "${ending.id}" is not in the ${scenario.id} ending catalog`);
+            }
+            if (typeof ending.title !== 'string' || ending.title.trim() === '') {
+                issues.push(`${field}.ending.title must be a non-empty string`);
+            }
+            continue;
+        }
+        if (!Array.isArray(node.choices) || node.choices.length < 1 || node.choices.length > MAX_CHOICES) {
+            issues.push(`${field}.choices must contain 1-${MAX_CHOICES} choices (or the node must be an ending)`);
+            continue;
+        }
+        node.choices.forEach((choice: unknown, index: number) => {
+            const choiceField = `${field}.choices[${index}]`;
+            if (!isRecord(choice) || typeof choice.label !== 'string' || choice.label.trim() === '') {
+                issues.push(`${choiceField}.label must be a non-empty string`);
+                return;
+            }
+            if (choice.next !== undefined && (typeof choice.next !== 'string' || !isRecord(nodes[choice.next]))) {
+                issues.push(`${choiceField}.next points to unknown node ${JSON.stringify(choice.next)}`);
+            } else if (choice.next === undefined && value.mode === 'authored') {
+                issues.push(`${choiceField}.next is required in authored mode`);
+            }
+            checkEffects(issues, `${choiceField}.effects`, choice.effects, scenario);
+            validateConditions(issues, `${choiceField}.conditions`, choice.conditions, scenario);
+        });
+        // At least one choice must always be available
+        if (!node.choices.some((choice: unknown) => isRecord(choice) && isUnconditional(choice.conditions))) {
+            issues.push(`${field} needs at least one unconditional choice`);
+        }
+    }
+
+    if (value.start !== undefined && (typeof value.start !== 'string' || !isRecord(nodes[value.start]))) {
+        issues.push(`start points to unknown node ${JSON.stringify(value.start)}`);
+    } else if (value.start === undefined && value.mode === 'authored') {
+        issues.push('start is required in authored mode');
+    }
+    if (!isEndingNode(value.fallback_ending)) {
+        issues.push('fallback_ending must point to an ending node');
+    }
+    if (value.anchors !== undefined) {
+        if (!isRecord(value.anchors)) {
+            issues.push('anchors must be an object of turn -> node id');
+        } else {
+            for (const [turn, nodeId] of Object.entries(value.anchors)) {
+                const turnNumber = Number(turn);
+                if (!Number.isInteger(turnNumber) || turnNumber < 1 || (scenario && turnNumber > scenario.turns)) {
+                    issues.push(`anchors.${turn} is not a turn within the scenario`);
+                }
+                if (typeof nodeId !== 'string' || !isRecord(nodes[nodeId])) {
+                    issues.push(`anchors.${turn} points to unknown node "${String(nodeId)}"`);
+                }
+            }
+        }
+    } else if (value.mode === 'hybrid') {
+        issues.push('hybrid stories need anchors');
+    }
+
+    if (issues.length > 0) {
+        throw new StoryGraphError(source, issues);
+    }
+    return value as unknown as StoryGraph;
+}
+
+/**
+ * Load every *.json story graph from a directory (missing directory means no stories).
+ * Scenario packs must be loaded first.
+ */
+export function loadStoryGraphs(dir = process.env.STORY_DIR || 'stories'): StoryGraph[] {
+    if (!existsSync(dir)) return [];
+    const loaded: StoryGraph[] = [];
+    for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+        const path = join(dir, file);
+        try {
+            const story = validateStoryGraph(JSON.parse(readFileSync(path, 'utf8')), path);
+            stories.set(story.id, story);
+            loaded.push(story);
+        } catch (error) {
+            console.error(`Skipping story graph ${path}:`, error instanceof Error ? error.message : error);
+        }
+    }
+    return loaded;
+}
+
+/**
+ * Get a story graph by id
+ */
+export function getStory(id: string): StoryGraph | undefined {
+    return stories.get(id);
+}
+
+/**
+ * List all loaded story graphs
+ */
+export function listStories(): StoryGraph[] {
+    return Array.from(stories.values());
+}
+
+/**
+ * Get the choices of a node whose conditions currently hold
+ */
+export function getAvailableChoices(node: StoryNode, state: PlayerState): StoryChoice[] {
+    return (node.choices ?? []).filter(choice => checkConditions(state, choice.conditions));
+}
+
+/**
+ * Apply a choice's stat deltas, clamped to the scenario ranges, and its item, clue and
+ * status effect changes, without advancing the turn
+ */
+export function applyChoiceEffects(
+    state: PlayerState,
+    effects: StoryChoice['effects'],
+    scenario: ScenarioPack
+): PlayerState {
+    const newState = applyEffectChanges(applyInventoryChanges(state, effects ?? {}, scenario), effects ?? {}, scenario);
+    for (const key of STAT_KEYS) {
+        const delta = effects?.[key];
+        if (delta === undefined) continue;
+        const { min, max } = scenario.stats[key];
+        newState[key] = Math.max(min, Math.min(max, newState[key] + delta));
+    }
+    return newState;
+}
+
+/**
+ * Pick the node to show next. Authored stories follow the chosen edge; hybrid stories
+ * show an anchor node on its fixed turn and leave every other turn to the model.
+ */
+export function getNextNodeId(story: StoryGraph, turn: number, choice: StoryChoice | null): string | null {
+    if (story.mode === 'hybrid') {
+        return story.anchors?.[String(turn)] ?? null;
+    }
+    return (choice ? choice.next : story.start) ?? null;
+}
+
+export interface StoryStep {
+    state: PlayerState; // State after the chosen option's effects
+    nodeId: string | null; // Node to show, null when the model should generate the scene
+    choice: StoryChoice | null; // The authored choice whose effects were applied, if any
+}
+
+/**
+ * Resolve the player's action against the story: apply the effects of the chosen
+ * option (if the current scene was authored) and decide which node comes next.
+ * An action that matches no available choice (e.g. a filler scene) keeps the current node.
+ */
+export function advanceStory(
+    story: StoryGraph,
+    progress: StoryProgress,
+    state: PlayerState,
+    action: string | null,
+    scenario: ScenarioPack
+): StoryStep {
+    const currentNode = progress.nodeId ? story.nodes[progress.nodeId] : undefined;
+    if (action === null || !currentNode) {
+        // First scene, or the current scene was generated by the model
+        return { state, nodeId: getNextNodeId(story, state.turn, null), choice: null };
+    }
+
+    const choice = getAvailableChoices(currentNode, state).find(option => option.label === action);
+    if (!choice) {
+        return { state, nodeId: progress.nodeId, choice: null };
+    }
+    return {
+        state: applyChoiceEffects(state, choice.effects, scenario),
+        nodeId: getNextNodeId(story, state.turn, choice),
+        choice,
+    };
+}
+
+/**
+ * Build a scene from an authored node. Stat effects belong to choices, so the scene itself changes nothing.
+ */
+export function buildStoryScene(story: StoryGraph, nodeId: string, state: PlayerState): GPTSceneResponse {
+    const node = story.nodes[nodeId];
+    return {
+        scene_text: node.text,
+        state_changes: {},
+        choices: getAvailableChoices(node, state).map(choice => choice.label),
+        hint: node.hint,
+    };
+}
+
+/**
+ * Get the ending of an ending node
+ */
+export function getStoryEnding(story: StoryGraph, nodeId: string): GPTEndingResponse | null {
+    const node = story.nodes[nodeId];
+    if (!node?.ending) return null;
+    return {
+        ending_id: node.ending.id,
+        ending_title: node.ending.title,
+        ending_text: node.text,
+        proposed_score: 0,
+    };
+}
@@ -5,30 +5,270 @@ export interface PlayerState {
     insight: number; // 0-100
     system_access: number; // 0-3
     morality: number; // -100 → +100
-    turn: number; // 1-10
+    turn: number; // 1 to the run's turn count
+    inventory: string[]; // Item ids from the scenario's vocabulary
+    clues: string[]; // Clue ids discovered so far
+    status_effects: ActiveStatusEffect[]; // Lingering conditions, e.g. drugged for 2 more turns
 }
 
+export interface ActiveStatusEffect {
+    id: string; // Status effect id from the scenario's vocabulary
+    turns_left: number; // Turns the effect still applies; removed when it reaches 0
+}
+
+export type StatKey = 'time_remaining' | 'trust' | 'sanity' | 'insight' | 'system_access' | 'morality';
+
+/**
+ * State changes returned by the model: signed stat deltas (e.g. insight: +5, sanity: -3)
+ * plus inventory, clue and status effect changes. The turn and the per-turn clock are advanced by the game.
+ */
+export interface StateChanges extends Partial<Record<StatKey, number>> {
+    items_gained?: string[];
+    items_lost?: string[];
+    clues_found?: string[];
+    effects_added?: string[];
+    effects_removed?: string[];
+}
+
+/**
+ * A requested state change that was not applied as asked, and why
+ */
+export interface StateAdjustment {
+    key: string; // Stat or list key the change targeted
+    requested: number | string; // Delta or id the model asked for
+    applied: number | null; // Delta actually applied; null when nothing was
+    kind: 'capped' | 'clamped' | 'rejected' | 'safety';
+    reason: string;
+}
+
+export interface StatDefinition {
+    label: string; // Display name, e.g. "Sanity" or "Composure"
+    emoji: string;
+    min: number;
+    max: number;
+    initial: number;
+    max_change?: number; // Largest change the model may make in one turn (default: 15% of the range)
+    max_gain?: number; // Largest increase the model may make in one turn (default: the max change)
+    decay?: number; // How much the stat drops on its own each turn, may be fractional (default: 1 for time_remaining, else 0)
+}
+
+export interface ItemDefinition {
+    id: string; // e.g. "keycard-516"
+    name: string;
+    emoji: string;
+    description: string;
+}
+
+export interface ClueDefinition {
+    id: string; // e.g. "cohort-16"
+    name: string;
+    description: string;
+    points: number; // Score bonus when found
+}
+
+export interface StatusEffectDefinition {
+    id: string; // e.g. "drugged"
+    name: string;
+    emoji: string;
+    description: string;
+    duration: number; // Turns the effect lasts once applied
+    modifiers?: Partial<Record<StatKey, number>>; // Stat deltas applied every turn while active
+    hides_choices?: string[]; // Choices containing any of these words are not offered while active
+    adds_choices?: string[]; // Extra choices offered while active
+}
+
+export interface EndingDefinition {
+    id: string; // Canonical id, e.g. "E-GLASS-CORRIDOR-07"
+    title: string;
+    summary: string; // What happens, used to steer the model
+    conditions?: Condition[]; // All must hold on the final state to unlock
+}
+
+export interface ScenarioPack {
+    id: string;
+    name: string;
+    description: string;
+    premise: string; // Full story premise for the system prompt
+    scene_context: string; // Short reminder included in every scene prompt
+    opening_instruction: string; // How the first scene should begin
+    narrative_goals: string[];
+    revelation: { early: string; mid: string; late: string }; // Pacing guidance per phase
+    tone: string;
+    ending_guidance: string;
+    opening_image_prompt: string;
+    image_style: string;
+    turns: number; // Number of turns before the ending
+    stats: Record<StatKey, StatDefinition>;
+    items: ItemDefinition[]; // Item vocabulary the model may hand out
+    clues: ClueDefinition[]; // Clue vocabulary the model may reveal
+    status_effects: StatusEffectDefinition[]; // Status effects the model may apply
+    endings: EndingDefinition[]; // Canonical ending catalog, most specific first
+}
+
+export interface StatCondition {
+    stat: StatKey;
+    op: '<' | '<=' | '>' | '>=' | '==' | '!=';
+    value: number;
+}
+
+export interface ItemCondition {
+    item: string;
+    held?: boolean; // Defaults to true; false requires the item to be absent
+}
+
+export interface ClueCondition {
+    clue: string;
+    found?: boolean; // Defaults to true
+}
+
+export type Condition = StatCondition | ItemCondition | ClueCondition;
+
+/**
+ * Stat rule for achievements: checks the final state by default, every state of the run
+ * with "always", or any state of the run with "ever"
+ */
+export interface StatRule extends StatCondition {
+    during?: 'end' | 'always' | 'ever';
+}
+
+export type RunMetric = 'score' | 'tip' | 'turns' | 'clues_found' | 'items_held' | 'status_effects' | 'free_text_actions';
+
+/**
+ * Numeric fact about a finished run, e.g. `{ metric: 'clues_found', op: '>=', value: 5 }`
+ */
+export interface MetricRule {
+    metric: RunMetric;
+    op: StatCondition['op'];
+    value: number;
+}
+
+/**
+ * How the run was set up or how it ended, e.g. `{ run: 'difficulty', is: 'condemned' }`
+ */
+export interface RunRule {
+    run: 'scenario' | 'length' | 'difficulty' | 'ending' | 'tier';
+    is: string | string[]; // Any of the listed values matches
+}
+
+export interface WonRule {
+    won: boolean; // Whether the run won its round
+}
+
+export type AchievementRule = StatRule | ItemCondition | ClueCondition | MetricRule | RunRule | WonRule;
+
+export interface AchievementDefinition {
+    id: string; // e.g. "unshaken"
+    name: string;
+    emoji: string;
+    description: string;
+    rules: AchievementRule[]; // All must hold on the finished run
+    from?: string; // ISO date the achievement becomes unlockable (seasonal achievements)
+    until?: string; // ISO date after which it can no longer be unlocked
+}
+
+export interface StoryChoice {
+    label: string;
+    next?: string; // Node shown after this choice (authored mode; optional in hybrid mode)
+    effects?: Omit<StateChanges, 'turn'>; // Stat deltas and item, clue and status effect changes applied when chosen
+    conditions?: Condition[]; // All must hold for the choice to be offered
+}
+
+export interface StoryNode {
+    text: string; // Scene text, or the ending text on ending nodes
+    hint?: string;
+    choices?: StoryChoice[];
+    ending?: { id: string; title: string }; // Present on ending nodes
+}
+
+export interface StoryGraph {
+    id: string;
+    name: string;
+    description: string;
+    scenario: string; // Scenario pack providing stats and turn count
+    mode: 'authored' | 'hybrid';
+    start?: string; // First node (required in authored mode)
+    fallback_ending: string; // Ending node used when no other ending is reached or generated
+    anchors?: Record<string, string>; // turn -> node id (hybrid mode)
+    nodes: Record<string, StoryNode>;
+}
+
+export interface StoryProgress {
+    storyId: string;
+    nodeId: string | null; // Authored node currently on screen, null for a generated scene
+}
+
+export type ActionKind = 'start' | 'choice' | 'free_text';
+
+export interface ActionRecord {
+    text: string;
+    kind: ActionKind; // Listed choice, typed /act text, or the game start marker
+}
+
+export interface StoryFacts {
+    characters: string[]; // Named people and voices, e.g. "Dr. Halden"
+    items: string[]; // Objects the player found or used
+    clues: string[]; // Things revealed about the captors and the building
+}
+
+export interface SceneRecord {
+    turn: number;
+    action?: ActionRecord; // What led to this scene (absent for the first scene)
+    text: string; // The scene text as shown to the player
+}
+
+export interface StoryMemory {
+    scenes: SceneRecord[]; // Every scene narrated so far, oldest first
+    facts: StoryFacts; // Facts extracted from the scenes
+    summary: string; // Rolling summary of the story so far
+    summaryTurn: number; // Last turn the summary covers (0 = no summary yet)
+}
+
+/**
+ * Game length chosen at /start; each length has its own leaderboard
+ */
+export type GameLength = 'short' | 'standard' | 'marathon';
+
+/**
+ * Difficulty chosen at /start (or fixed for the round by an admin)
+ */
+export type Difficulty = 'guest' | 'resident' | 'condemned';
+
 export interface GameSession {
     sessionId: string;
     userId: string; // User's identity address (from basePayload)
     smartAccountAddress: string; // User's smart contract address (senderAddress)
     displayName?: string; // User's display name if available
     channelId: string;
+    scopeId: string; // Scope of the round, season and prize pool the run counts for (see scope.ts)
+    roundId: string; // Round the run was started in
+    scenarioId: string; // Scenario pack this run is played with
+    length: GameLength; // Turn count and time budget are derived from it
+    difficulty: Difficulty; // Starting stats, decay, gain caps, prompt tone and score multiplier
+    story?: StoryProgress; // Set when playing an authored or hybrid story
     state: PlayerState;
     startedAt: Date;
     tipAmount: bigint; // Amount tipped to enter
-    actionHistory: string[]; // Last 10 actions
+    actionHistory: ActionRecord[]; // Actions of the run, at most one per turn
+    memory: StoryMemory; // Long-term narrative memory
     isActive: boolean;
+    lastActivityAt: Date; // Last action the player took; idle runs are reminded, then forfeited
+    remindedAt?: Date; // When the idle reminder for the current wait was sent
     endingId?: string;
     finalScore?: number;
 }
 
+/**
+ * Why a run ended without reaching its ending: the player went quiet, or used /abandon
+ */
+export type ForfeitReason = 'idle' | 'abandoned';
+
 export interface GPTSceneResponse {
     scene_text: string;
-    state_changes: Partial<PlayerState>;
+    state_changes: StateChanges;
     choices: string[];
     hint?: string;
     image_url?: string; // Optional image URL if generated
+    facts?: Partial<StoryFacts>; // Facts newly established by this scene
 }
 
 export interface GPTEndingResponse {
@@ -38,31 +278,131 @@ export interface GPTEndingResponse {
     proposed_score: number;
 }
 
+/**
+ * Weights of a scoring version. Versions are never edited once used; changing weights
+ * means adding a new version, so every recorded score can still be explained.
+ */
+export interface ScoreWeights {
+    base: number;
+    insight: number; // Points per insight
+    system_access: number; // Points per level of system access
+    trust: number; // Points per trust
+    sanity_penalty: number; // Points lost per point of sanity below its maximum
+    morality: number; // Points per morality
+    clues: number; // Multiplier on the points of the clues found
+    speed: number; // Points per time_remaining left at the end
+}
+
+export interface ScoreComponent {
+    id: keyof ScoreWeights;
+    label: string;
+    detail: string; // How the points were worked out, e.g. "55 × 0.5"
+    points: number;
+}
+
+export interface ScoreBreakdown {
+    version: string;
+    components: ScoreComponent[]; // Components whose weight is not zero
+    subtotal: number; // Sum of the components
+    multiplier: number; // Difficulty score multiplier
+    total: number; // Subtotal times the multiplier, rounded and at least 0
+}
+
+export type Tier = 'S' | 'A' | 'B' | 'C' | 'D';
+
+/**
+ * Where a score places: by its percentile among the season's scores, or by fixed
+ * thresholds while the season has too few finished runs
+ */
+export interface TierPlacement {
+    tier: Tier;
+    percentile?: number; // Top share of the season's scores, e.g. 4.5 for the top 4.5%; absent for fixed thresholds
+}
+
 export interface EndingResult {
     ending_id: string;
     ending_title: string;
     ending_text: string;
     final_score: number;
-    tier: 'S' | 'A' | 'B' | 'C' | 'D';
+    tier: Tier; // Tier at finish time
+    percentile?: number; // Placement the tier was assigned from; absent when fixed thresholds were used
+    breakdown: ScoreBreakdown;
 }
 
 export interface LeaderboardEntry {
     season_id: string;
+    round_id: string;
     session_id: string;
+    scenario_id: string;
+    length: GameLength;
+    difficulty: Difficulty;
     wallet: string;
     score: number;
+    score_version: string; // Scoring version the score was computed with
+    breakdown: ScoreBreakdown;
+    final_state: PlayerState; // Kept so the run can be rescored under a newer version
     ending_id: string;
-    tier: string;
+    tier: Tier; // Tier at finish time; the current standing comes from getCurrentPlacement
+    percentile?: number;
     timestamp: Date;
 }
 
+/**
+ * A player's place in a season's archived final standings
+ */
+export interface SeasonStanding {
+    rank: number;
+    wallet: string;
+    session_id: string;
+    score: number; // Under the season's final scoring version
+    tier: Tier; // Placement when the season was archived
+    ending_id: string;
+    difficulty: Difficulty;
+}
+
+export interface SeasonRecord {
+    id: string;
+    scopeId: string; // Each scope has its own seasons
+    name: string; // Unique within its scope, e.g. "season-3" or "winter-2026"; used by /leaderboard season:<name>
+    startedAt: Date;
+    endsAt?: Date; // Scheduled rollover; absent when only an admin ends the season
+    endedAt?: Date;
+    scoreVersion: string; // Scoring version finished runs are scored with (see /scoring)
+    standings?: Partial<Record<GameLength, SeasonStanding[]>>; // Final standings per game length, set once its rounds settle
+    archivedAt?: Date;
+}
+
+/**
+ * What rounds, prize pools, seasons and leaderboards are kept apart by
+ */
+export type GameScope = 'channel' | 'space' | 'global';
+
+/**
+ * Round lifecycle: an open round accepts new runs until closesAt; a closing round waits, up to
+ * the grace period, for runs already in progress; then it is settled with a winner, or
+ * cancelled when too few players finished and its prize pool is carried over
+ */
+export type RoundStatus = 'open' | 'closing' | 'settled' | 'cancelled';
+
+export type RoundAnnouncementKind = 'opened' | 'last_call' | 'closing' | 'settled' | 'cancelled';
+
 export interface RoundState {
     roundId: string;
+    scopeId: string; // Channel or space the round is played in; its tips never leave it
     seasonId: string;
-    prizePool: bigint; // Total tips collected
+    prizePool: bigint; // Total tips collected, plus pools carried over from cancelled rounds
     activePlayers: Set<string>; // userIds still playing
     completedPlayers: Map<string, EndingResult>; // userId -> ending result
     startedAt: Date;
-    isActive: boolean;
+    status: RoundStatus;
+    closesAt: Date; // When the round stops accepting new runs
+    graceEndsAt?: Date; // Set when the round starts closing
+    settledAt?: Date; // When the round was settled or cancelled
+    winnerId?: string; // Decided when the round settles
+    carriedOverTo?: string; // Round a cancelled round's prize pool went to
+    channelIds: Set<string>; // Channels the round's announcements are posted to
+    announced: RoundAnnouncementKind[]; // Announcements already made, so each is made once
+    allowFreeText: boolean; // Whether /act free-text actions are accepted this round
+    difficulty?: Difficulty; // Set when an admin fixes every new run's difficulty for the round
 }
 
@@ -0,0 +1,172 @@
+import { createPersistentMap } from './storage';
+
+export interface UsageContext {
+    sessionId: string;
+    roundId: string;
+}
+
+export interface UsageTotals {
+    calls: number; // Chat completions, including repair re-prompts
+    promptTokens: number;
+    completionTokens: number;
+    images: number;
+    costUsd: number; // Estimated from MODEL_PRICING
+}
+
+interface ModelPricing {
+    input?: number; // USD per 1M prompt tokens
+    output?: number; // USD per 1M completion tokens
+    image?: number; // USD per generated image
+}
+
+/**
+ * How much a session may still spend. Budgets degrade gracefully instead of stopping play:
+ * images go first, then scenes switch to the economy model.
+ */
+export type BudgetMode = 'normal' | 'no_images' | 'economy';
+
+// List prices for the models we use by default; override or extend with MODEL_PRICING (JSON)
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'dall-e-3': { image: 0.04 },
+    'dall-e-2': { image: 0.02 },
+};
+
+const pricing: Record<string, ModelPricing> = {
+    ...DEFAULT_PRICING,
+    ...(process.env.MODEL_PRICING ? JSON.parse(process.env.MODEL_PRICING) : {}),
+};
+
+// Budgets in USD; 0 disables a cap
+export const SESSION_BUDGET_USD = Number(process.env.SESSION_BUDGET_USD ?? 0.5);
+export const DAILY_BUDGET_USD = Number(process.env.DAILY_BUDGET_USD ?? 25);
+// Fraction of a budget after which images are dropped
+const IMAGE_CUTOFF = Number(process.env.BUDGET_IMAGE_CUTOFF ?? 0.7);
+
+type UsageCollection = 'session_usage' | 'round_usage' | 'daily_usage';
+
+// Usage totals, written through to the store so the budget caps hold across restarts
+const usage = new Map<UsageCollection, Map<string, UsageTotals>>(); // collection -> sessionId, roundId or YYYY-MM-DD (UTC) -> totals
+const unpricedModels = new Set<string>();
+
+// Loaded from the store on first use
+function getUsage(collection: UsageCollection): Map<string, UsageTotals> {
+    let totals = usage.get(collection);
+    if (!totals) {
+        totals = createPersistentMap<UsageTotals>(collection);
+        usage.set(collection, totals);
+    }
+    return totals;
+}
+
+function emptyTotals(): UsageTotals {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, images: 0, costUsd: 0 };
+}
+
+function dayKey(date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function getPricing(model: string): ModelPricing {
+    const entry = pricing[model];
+    if (!entry && !unpricedModels.has(model)) {
+        // Local OpenAI-compatible models are usually free; warn once so real gaps are noticed
+        unpricedModels.add(model);
+        console.warn(`No pricing for model ${model}; its usage is counted at $0`);
+    }
+    return entry ?? {};
+}
+
+function addTo(map: Map<string, UsageTotals>, key: string, delta: UsageTotals): void {
+    const totals = map.get(key) ?? emptyTotals();
+    totals.calls += delta.calls;
+    totals.promptTokens += delta.promptTokens;
+    totals.completionTokens += delta.completionTokens;
+    totals.images += delta.images;
+    totals.costUsd += delta.costUsd;
+    map.set(key, totals);
+}
+
+function record(context: UsageContext | undefined, delta: UsageTotals): void {
+    addTo(getUsage('daily_usage'), dayKey(), delta);
+    if (context) {
+        addTo(getUsage('session_usage'), context.sessionId, delta);
+        addTo(getUsage('round_usage'), context.roundId, delta);
+    }
+}
+
+/**
+ * Record the token usage of one chat completion
+ */
+export function recordChatUsage(
+    context: UsageContext | undefined,
+    model: string,
+    promptTokens: number,
+    completionTokens: number
+): void {
+    const price = getPricing(model);
+    record(context, {
+        calls: 1,
+        promptTokens,
+        completionTokens,
+        images: 0,
+        costUsd: (promptTokens * (price.input ?? 0) + completionTokens * (price.output ?? 0)) / 1_000_000,
+    });
+}
+
+/**
+ * Record generated images
+ */
+export function recordImageUsage(context: UsageContext | undefined, model: string, images = 1): void {
+    record(context, { ...emptyTotals(), images, costUsd: images * (getPricing(model).image ?? 0) });
+}
+
+/**
+ * Get usage totals for a session
+ */
+export function getSessionUsage(sessionId: string): UsageTotals {
+    return getUsage('session_usage').get(sessionId) ?? emptyTotals();
+}
+
+/**
+ * Get usage totals for a round
+ */
+export function getRoundUsage(roundId: string): UsageTotals {
+    return getUsage('round_usage').get(roundId) ?? emptyTotals();
+}
+
+/**
+ * Get usage totals for a UTC day (today by default)
+ */
+export function getDailyUsage(date = new Date()): UsageTotals {
+    return getUsage('daily_usage').get(dayKey(date)) ?? emptyTotals();
+}
+
+/**
+ * Decide how much a session may still spend, from the larger of its share of the
+ * session budget and today's share of the daily budget
+ */
+export function getBudgetMode(context: UsageContext | undefined): BudgetMode {
+    const shares = [
+        DAILY_BUDGET_USD > 0 ? getDailyUsage().costUsd / DAILY_BUDGET_USD : 0,
+        context && SESSION_BUDGET_USD > 0 ? getSessionUsage(context.sessionId).costUsd / SESSION_BUDGET_USD : 0,
+    ];
+    const share = Math.max(...shares);
+    if (share >= 1) return 'economy';
+    if (share >= IMAGE_CUTOFF) return 'no_images';
+    return 'normal';
+}
+
+/**
+ * Format totals for admin messages, e.g. "$0.0123 · 3 calls · 4,210 tokens · 1 image"
+ */
+export function formatUsage(totals: UsageTotals): string {
+    const tokens = totals.promptTokens + totals.completionTokens;
+    return (
+        `$${totals.costUsd.toFixed(4)} · ${totals.calls} call${totals.calls === 1 ? '' : 's'} · ` +
+        `${tokens.toLocaleString('en-US')} tokens · ${totals.images} image${totals.images === 1 ? '' : 's'}`
+    );
+}
@@ -0,0 +1,126 @@
+import { describe, expect, test } from 'bun:test';
+import {
+    CHOICE_MAX_LENGTH,
+    ENDING_MIN_WORDS,
+    NarrativeValidationError,
+    SCENE_MAX_WORDS,
+    validateEndingResponse,
+    validateSceneResponse,
+    validateSceneVocabulary,
+    validateSummaryResponse,
+} from './validation';
+import { getScenario } from './scenario';
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+function validScene(): Record<string, unknown> {
+    return {
+        scene_text: 'The radiator knocks twice.',
+        state_changes: { insight: 5, sanity: -3 },
+        choices: ['Knock back', 'Stay still'],
+    };
+}
+
+function issuesOf(fn: () => unknown): string[] {
+    try {
+        fn();
+    } catch (error) {
+        if (error instanceof NarrativeValidationError) return error.issues;
+        throw error;
+    }
+    throw new Error('expected a NarrativeValidationError');
+}
+
+describe('validateSceneResponse', () => {
+    test('accepts a valid scene and trims its text', () => {
+        const scene = validateSceneResponse({
+            ...validScene(),
+            scene_text: '  The radiator knocks twice.  ',
+            choices: [' Knock back ', 'Stay still'],
+            hint: '',
+            facts: { characters: [' The nurse '] },
+        });
+        expect(scene.scene_text).toBe('The radiator knocks twice.');
+        expect(scene.choices).toEqual(['Knock back', 'Stay still']);
+        expect(scene.hint).toBeUndefined();
+        expect(scene.facts).toEqual({ characters: ['The nurse'] });
+    });
+
+    test('rejects anything but an object', () => {
+        expect(issuesOf(() => validateSceneResponse([]))).toEqual(['response must be a JSON object']);
+    });
+
+    test('reports every issue at once', () => {
+        const issues = issuesOf(() =>
+            validateSceneResponse({
+                scene_text: words(SCENE_MAX_WORDS + 1),
+                state_changes: { luck: 2, trust: '1', items_gained: [''] },
+                choices: ['Only one'],
+                hint: 3,
+                facts: { places: [] },
+            })
+        );
+        expect(issues).toHaveLength(7);
+        expect(issues[0]).toContain(`maximum is ${SCENE_MAX_WORDS}`);
+        expect(issues).toContain('state_changes.items_gained must be an array of ids');
+        expect(issues).toContain('state_changes.trust must be a number (a signed change such as 5 or -3)');
+        expect(issues.some(issue => issue.startsWith('state_changes.luck is not a known stat'))).toBe(true);
+        expect(issues).toContain('choices must contain 2-4 items, got 1');
+        expect(issues).toContain('hint must be a string when present');
+        expect(issues).toContain('facts.places is not allowed (allowed: characters, items, clues)');
+    });
+
+    test('rejects overlong choices', () => {
+        const issues = issuesOf(() => validateSceneResponse({ ...validScene(), choices: ['Go', 'x'.repeat(CHOICE_MAX_LENGTH + 1)] }));
+        expect(issues).toEqual([`choices[1] is longer than ${CHOICE_MAX_LENGTH} characters`]);
+    });
+});
+
+describe('validateSceneVocabulary', () => {
+    const scenario = getScenario('room-616')!;
+
+    test('accepts ids from the scenario', () => {
+        const scene = validateSceneResponse({ ...validScene(), state_changes: { items_gained: ['loose-bolt'], clues_found: ['cohort-16'] } });
+        expect(validateSceneVocabulary(scene, scenario)).toBe(scene);
+    });
+
+    test('rejects ids the scenario does not define', () => {
+        const scene = validateSceneResponse({ ...validScene(), state_changes: { items_gained: ['crowbar'] } });
+        const issues = issuesOf(() => validateSceneVocabulary(scene, scenario));
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toStartWith('state_changes uses unknown ids "crowbar"');
+    });
+});
+
+describe('validateEndingResponse', () => {
+    const ending = {
+        ending_id: 'E-GLASS-CORRIDOR-07',
+        ending_title: ' The Glass Corridor ',
+        ending_text: words(ENDING_MIN_WORDS),
+        proposed_score: 300,
+    };
+
+    test('accepts a valid ending', () => {
+        expect(validateEndingResponse(ending)).toEqual({ ...ending, ending_title: 'The Glass Corridor' });
+    });
+
+    test('rejects a malformed id, a short text and a missing score', () => {
+        const issues = issuesOf(() =>
+            validateEndingResponse({ ...ending, ending_id: 'glass-corridor', ending_text: words(10), proposed_score: undefined })
+        );
+        expect(issues).toHaveLength(3);
+        expect(issues[0]).toStartWith('ending_id must look like');
+        expect(issues[1]).toBe(`ending_text has 10 words, minimum is ${ENDING_MIN_WORDS}`);
+        expect(issues[2]).toBe('proposed_score must be a number');
+    });
+});
+
+describe('validateSummaryResponse', () => {
+    test('returns the trimmed summary', () => {
+        expect(validateSummaryResponse({ summary: ' The player found the key. ' })).toBe('The player found the key.');
+    });
+
+    test('rejects an empty summary', () => {
+        expect(issuesOf(() => validateSummaryResponse({ summary: ' ' }))).toEqual(['summary must be a non-empty string']);
+    });
+});
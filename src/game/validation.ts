@@ -0,0 +1,221 @@
+import type { StatKey, GPTSceneResponse, GPTEndingResponse, ScenarioPack, StateChanges, StoryFacts } from './types';
+import { findUnknownIds, isInventoryChangeKey, INVENTORY_CHANGE_KEYS } from './inventory';
+import { findUnknownEffects, isEffectChangeKey, EFFECT_CHANGE_KEYS } from './effects';
+import { STAT_KEYS } from './scenario';
+
+export const SCENE_MAX_WORDS = 120;
+export const ENDING_MIN_WORDS = 80;
+export const ENDING_MAX_WORDS = 180;
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 4;
+export const CHOICE_MAX_LENGTH = 80;
+export const FACT_MAX_LENGTH = 80;
+export const FACTS_PER_SCENE = 5;
+export const SUMMARY_MAX_WORDS = 150;
+export const ENDING_ID_PATTERN = /^E-[A-Z0-9]+(?:-[A-Z0-9]+)*-\d{2}$/;
+
+/**
+ * Thrown when a model response does not match the expected schema
+ */
+export class NarrativeValidationError extends Error {
+    constructor(
+        public readonly kind: 'scene' | 'ending' | 'summary',
+        public readonly issues: string[],
+        public readonly rawContent?: string
+    ) {
+        super(`Invalid ${kind} response: ${issues.join('; ')}`);
+        this.name = 'NarrativeValidationError';
+    }
+}
+
+/**
+ * Count words in a piece of text
+ */
+export function countWords(text: string): number {
+    return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Check that a parsed JSON value is a plain object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkText(
+    issues: string[],
+    field: string,
+    value: unknown,
+    limits: { min?: number; max?: number } = {}
+): value is string {
+    if (typeof value !== 'string' || value.trim() === '') {
+        issues.push(`${field} must be a non-empty string`);
+        return false;
+    }
+    const words = countWords(value);
+    if (limits.max !== undefined && words > limits.max) {
+        issues.push(`${field} has ${words} words, maximum is ${limits.max}`);
+    }
+    if (limits.min !== undefined && words < limits.min) {
+        issues.push(`${field} has ${words} words, minimum is ${limits.min}`);
+    }
+    return true;
+}
+
+/**
+ * Validate a parsed scene response and return it typed, or throw NarrativeValidationError
+ */
+export function validateSceneResponse(value: unknown): GPTSceneResponse {
+    const issues: string[] = [];
+    if (!isRecord(value)) {
+        throw new NarrativeValidationError('scene', ['response must be a JSON object']);
+    }
+
+    checkText(issues, 'scene_text', value.scene_text, { max: SCENE_MAX_WORDS });
+
+    if (!isRecord(value.state_changes)) {
+        issues.push('state_changes must be an object');
+    } else {
+        for (const [key, change] of Object.entries(value.state_changes)) {
+            if (isInventoryChangeKey(key) || isEffectChangeKey(key)) {
+                if (!Array.isArray(change) || !change.every(id => typeof id === 'string' && id.trim() !== '')) {
+                    issues.push(`state_changes.${key} must be an array of ids`);
+                }
+            } else if (!STAT_KEYS.includes(key as StatKey)) {
+                issues.push(
+                    `state_changes.${key} is not a known stat (allowed: ${[...STAT_KEYS, ...INVENTORY_CHANGE_KEYS, ...EFFECT_CHANGE_KEYS].join(', ')})`
+                );
+            } else if (typeof change !== 'number' || !Number.isFinite(change)) {
+                issues.push(`state_changes.${key} must be a number (a signed change such as 5 or -3)`);
+            }
+        }
+    }
+
+    if (!Array.isArray(value.choices)) {
+        issues.push('choices must be an array of strings');
+    } else {
+        if (value.choices.length < MIN_CHOICES || value.choices.length > MAX_CHOICES) {
+            issues.push(`choices must contain ${MIN_CHOICES}-${MAX_CHOICES} items, got ${value.choices.length}`);
+        }
+        value.choices.forEach((choice, index) => {
+            if (typeof choice !== 'string' || choice.trim() === '') {
+                issues.push(`choices[${index}] must be a non-empty string`);
+            } else if (choice.length > CHOICE_MAX_LENGTH) {
+                issues.push(`choices[${index}] is longer than ${CHOICE_MAX_LENGTH} characters`);
+            }
+        });
+    }
+
+    if (value.hint !== undefined && value.hint !== null && typeof value.hint !== 'string') {
+        issues.push('hint must be a string when present');
+    }
+
+    const facts = checkFacts(issues, value.facts);
+
+    if (issues.length > 0) {
+        throw new NarrativeValidationError('scene', issues);
+    }
+
+    return {
+        scene_text: (value.scene_text as string).trim(),
+        state_changes: value.state_changes as StateChanges,
+        choices: (value.choices as string[]).map(choice => choice.trim()),
+        hint: typeof value.hint === 'string' && value.hint.trim() !== '' ? value.hint.trim() : undefined,
+        facts,
+    };
+}
+
+/**
+ * Check that a scene only hands out items, clues and status effects from the scenario's vocabulary
+ */
+export function validateSceneVocabulary(scene: GPTSceneResponse, scenario: ScenarioPack): GPTSceneResponse {
+    const unknown = [...findUnknownIds(scene.state_changes, scenario), ...findUnknownEffects(scene.state_changes, scenario)];
+    if (unknown.length > 0) {
+        throw new NarrativeValidationError('scene', [
+            `state_changes uses unknown ids ${unknown.map(id => `"${id}"`).join(', ')} ` +
+                `(items: ${scenario.items.map(item => item.id).join(', ') || 'none'}; ` +
+                `clues: ${scenario.clues.map(clue => clue.id).join(', ') || 'none'}; ` +
+                `status effects: ${scenario.status_effects.map(effect => effect.id).join(', ') || 'none'})`,
+        ]);
+    }
+    return scene;
+}
+
+/**
+ * Check the optional facts object of a scene: characters, items and clues as short strings
+ */
+function checkFacts(issues: string[], value: unknown): Partial<StoryFacts> | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!isRecord(value)) {
+        issues.push('facts must be an object with characters, items and clues arrays');
+        return undefined;
+    }
+    const facts: Partial<StoryFacts> = {};
+    for (const [key, entries] of Object.entries(value)) {
+        if (key !== 'characters' && key !== 'items' && key !== 'clues') {
+            issues.push(`facts.${key} is not allowed (allowed: characters, items, clues)`);
+            continue;
+        }
+        if (!Array.isArray(entries) || entries.length > FACTS_PER_SCENE) {
+            issues.push(`facts.${key} must be an array of at most ${FACTS_PER_SCENE} strings`);
+            continue;
+        }
+        entries.forEach((entry, index) => {
+            if (typeof entry !== 'string' || entry.trim() === '') {
+                issues.push(`facts.${key}[${index}] must be a non-empty string`);
+            } else if (entry.length > FACT_MAX_LENGTH) {
+                issues.push(`facts.${key}[${index}] is longer than ${FACT_MAX_LENGTH} characters`);
+            }
+        });
+        facts[key] = entries.filter((entry): entry is string => typeof entry === 'string').map(entry => entry.trim());
+    }
+    return facts;
+}
+
+/**
+ * Validate a parsed ending response and return it typed, or throw NarrativeValidationError
+ */
+export function validateEndingResponse(value: unknown): GPTEndingResponse {
+    const issues: string[] = [];
+    if (!isRecord(value)) {
+        throw new NarrativeValidationError('ending', ['response must be a JSON object']);
+    }
+
+    if (typeof value.ending_id !== 'string' || !ENDING_ID_PATTERN.test(value.ending_id)) {
+        issues.push('ending_id must look like "E-GLASS-CORRIDOR-07" (uppercase words joined by dashes, ending in two digits)');
+    }
+    checkText(issues, 'ending_title', value.ending_title, { max: 12 });
+    checkText(issues, 'ending_text', value.ending_text, { min: ENDING_MIN_WORDS, max: ENDING_MAX_WORDS });
+    if (typeof value.proposed_score !== 'number' || !Number.isFinite(value.proposed_score)) {
+        issues.push('proposed_score must be a number');
+    }
+
+    if (issues.length > 0) {
+        throw new NarrativeValidationError('ending', issues);
+    }
+
+    return {
+        ending_id: value.ending_id as string,
+        ending_title: (value.ending_title as string).trim(),
+        ending_text: (value.ending_text as string).trim(),
+        proposed_score: value.proposed_score as number,
+    };
+}
+
+/**
+ * Validate a parsed story summary response and return the summary text, or throw NarrativeValidationError
+ */
+export function validateSummaryResponse(value: unknown): string {
+    const issues: string[] = [];
+    if (!isRecord(value)) {
+        throw new NarrativeValidationError('summary', ['response must be a JSON object']);
+    }
+
+    checkText(issues, 'summary', value.summary, { max: SUMMARY_MAX_WORDS });
+
+    if (issues.length > 0) {
+        throw new NarrativeValidationError('summary', issues);
+    }
+
+    return (value.summary as string).trim();
+}
@@ -7,28 +7,163 @@ import { Hono } from 'hono'
 import { logger } from 'hono/logger'
 import type { PlainMessage } from '@towns-protocol/proto'
 import commands from './commands'
-import { generateScene, generateEnding, generateSceneImage } from './game/gpt'
-import { applyStateChanges, shouldEndGame } from './game/state'
-import { createEndingResult } from './game/scoring'
-import type { PlayerState } from './game/types'
+import {
+    createNarrativeProvider,
+    createStaticFillerScene,
+    createFallbackEnding,
+    STATIC_FILLER_CHOICES,
+} from './game/narrative'
+import { applyStateChanges, createForfeitState, shouldEndGame } from './game/state'
+import {
+    createEndingResult,
+    formatScoreBreakdown,
+    listScoreVersions,
+    computeScoreBreakdown,
+    getScoreWeights,
+    getTierPlacement,
+    formatPlacement,
+    MIN_TIER_SAMPLE,
+    TIER_PERCENTILES,
+} from './game/scoring'
+import type { PlayerState, ScenarioPack, GPTSceneResponse, GPTEndingResponse, ActionKind, ActionRecord, StateAdjustment, Difficulty, GameLength, RoundState, SeasonRecord, EndingResult, ForfeitReason, LeaderboardEntry } from './game/types'
+import { loadScenarioPacks, listScenarios, getScenario, resolveScenario, STAT_KEYS } from './game/scenario'
+import { loadStoryGraphs, listStories, getStory, advanceStory, buildStoryScene, getStoryEnding } from './game/story'
 import {
     getSession,
     createSession,
     updateSession,
     endSession,
+    getComparableScore,
+    getCurrentPlacement,
+    getSeasonScores,
+    getSeasonStandings,
+    getGlobalLeaderboard,
+    getSessionSeasonId,
+    restoreGameState,
+    touchSession,
+    beginTurn,
+    endTurn,
+    isTurnInProgress,
+    isIdleForfeitDue,
+    checkIdleSessions,
+    IDLE_REMINDER_MS,
+    IDLE_FORFEIT_MS,
     clearSession,
     getLeaderboard,
-    getCurrentRound,
-    getRoundWinner,
+    getRoundEntries,
+    recordEndingDiscovery,
+    getDiscoveredEndings,
+    getSessionScenario,
 } from './game/session'
+import {
+    getOpenRound,
+    getLatestRound,
+    getRound,
+    getRoundWinner,
+    addToPrizePool,
+    saveRound,
+    advanceRounds,
+    closeOpenRound,
+    hasUnsettledRounds,
+    ROUND_MIN_PLAYERS,
+} from './game/rounds'
+import {
+    getCurrentSeason,
+    getCurrentSeasonId,
+    findSeason,
+    listSeasons,
+    checkSeasonName,
+    getScoreVersion,
+    setScoreVersion,
+    getScopesDueForRollover,
+    rollOverSeason,
+    getSeasonsAwaitingArchive,
+    archiveSeason,
+} from './game/seasons'
+import type { RoundAnnouncement } from './game/rounds'
+import { getScopeId, GLOBAL_LEADERBOARD } from './game/scope'
+import { GAME_LENGTHS, DEFAULT_GAME_LENGTH, parseGameLength, formatGameLength } from './game/length'
+import { DIFFICULTIES, DEFAULT_DIFFICULTY, parseDifficulty, formatDifficulty } from './game/difficulty'
+import { canonicalizeEnding, createForfeitEnding } from './game/endings'
+import { formatInventory, formatClues } from './game/inventory'
+import { applyEffectChoices, formatEffects } from './game/effects'
+import { loadAchievements, listAchievements, getFinishedRun, recordAchievements, getUnlockedAchievements, isAchievementAvailable } from './game/achievements'
+import { appendRunEvent, getRunLog, getLatestRunId, verifyRun, SESSION_ID_PATTERN } from './game/runlog'
+import type { RunEvent } from './game/runlog'
+import { screenFreeTextAction, FreeTextActionError, FREE_TEXT_MAX_LENGTH, FREE_TEXT_DEFAULT } from './game/actions'
+import { isAdmin } from './game/admin'
+import {
+    getBudgetMode,
+    getSessionUsage,
+    getRoundUsage,
+    getDailyUsage,
+    formatUsage,
+    SESSION_BUDGET_USD,
+    DAILY_BUDGET_USD,
+} from './game/usage'
+import type { UsageContext } from './game/usage'
+import { createImageProvider, createSceneImages, setChannelImagesEnabled, areChannelImagesEnabled } from './game/images'
+import { createImageStore } from './game/imagestore'
+import { recordScene, needsSummary, applySummary } from './game/memory'
+import { getStore, createPersistentMap } from './game/storage'
 
 const bot = await makeTownsBot(process.env.APP_PRIVATE_DATA!, process.env.JWT_SECRET!, {
     commands,
 })
 
+// Scenario packs (premise, prompts, stats and turn count) loaded from SCENARIO_DIR
+const scenarioPacks = loadScenarioPacks()
+console.log(`Loaded scenario packs: ${scenarioPacks.map(pack => pack.id).join(', ')}`)
+
+// Authored and hybrid story graphs loaded from STORY_DIR (optional)
+const storyGraphs = loadStoryGraphs()
+if (storyGraphs.length > 0) {
+    console.log(`Loaded story graphs: ${storyGraphs.map(story => story.id).join(', ')}`)
+}
+
+// Achievement rules loaded from ACHIEVEMENT_DIR (optional)
+const achievementDefinitions = loadAchievements()
+if (achievementDefinitions.length > 0) {
+    console.log(`Loaded achievements: ${achievementDefinitions.length}`)
+}
+
+// Narrative provider (OpenAI, OpenAI-compatible local server, or offline) chosen at startup
+const narrative = createNarrativeProvider()
+console.log(`Using narrative provider: ${narrative.name}`)
+
+// Scene images are generated once per prompt, stored durably and served from /images
+const imageProvider = createImageProvider()
+const imageStore = createImageStore()
+const sceneImages = createSceneImages(
+    imageProvider,
+    imageStore,
+    process.env.PUBLIC_BASE_URL || `http://localhost:${process.env.PORT || 5123}`
+)
+console.log(`Using image provider: ${imageProvider?.name ?? 'none'} (store: ${imageStore.name})`)
+
+// Sessions, seasons, rounds and the leaderboard are kept in the store, so a restart resumes live games and prize pools
+const restored = restoreGameState()
+console.log(`Using game store: ${getStore().name} (restored ${restored.sessions} sessions, ${restored.seasons} seasons, ${restored.rounds} rounds, ${restored.leaderboard} leaderboard entries)`)
+
 // Store last scene choices for each user (for handling /choose commands and button interactions)
-const lastChoices = new Map<string, string[]>(); // userId -> choices array
-const interactionRequestMap = new Map<string, { userId: string; choices: string[] }>(); // requestId -> { userId, choices }
+// Both are persisted, so buttons sent before a restart still work after it
+const lastChoices = createPersistentMap<string[]>('last_choices') // userId -> choices array
+// requestId -> the session and turn a scene form was sent for, and its choices; only the latest form of a turn is kept
+const interactionRequestMap = createPersistentMap<{ userId: string; sessionId: string; turn: number; choices: string[] }>('interactions')
+for (const [requestId, { userId, sessionId }] of interactionRequestMap) {
+    // Buttons of games that ended or were abandoned while the bot was down
+    const session = getSession(userId)
+    if (!session?.isActive || session.sessionId !== sessionId) interactionRequestMap.delete(requestId)
+}
+// Interaction events already handled (eventId -> when), so a redelivered webhook never plays a turn twice
+const handledInteractions = createPersistentMap<number>('handled_interactions')
+// Interaction events whose turn is being played; not stored, so a click whose turn a restart cut short is played when redelivered
+const interactionsInProgress = new Set<string>()
+const HANDLED_INTERACTION_TTL_MS = 24 * 60 * 60_000
+pruneHandledInteractions()
+for (const userId of lastChoices.keys()) {
+    if (!getSession(userId)?.isActive) lastChoices.delete(userId)
+}
 
 /**
  * Format scene with choices as buttons
@@ -41,7 +176,8 @@ async function sendSceneWithButtons(
     hint?: string,
     userId?: string,
     playerState?: PlayerState,
-    imageUrl?: string
+    imageUrl?: string,
+    scenario: ScenarioPack = resolveScenario()
 ): Promise<void> {
     // If we have an image, send it first as a separate message
     if (imageUrl) {
@@ -50,7 +186,7 @@ async function sendSceneWithButtons(
                 attachments: [{
                     type: 'image',
                     url: imageUrl,
-                    alt: `Scene from Room 616`
+                    alt: `Scene from ${scenario.name}`
                 }]
             });
         } catch (error) {
@@ -62,7 +198,7 @@ async function sendSceneWithButtons(
     // Build subtitle with stats and hint
     let subtitleParts: string[] = [];
     if (playerState) {
-        subtitleParts.push(formatStatsCompact(playerState));
+        subtitleParts.push(formatStatsCompact(playerState, scenario));
     }
     if (hint) {
         subtitleParts.push(`💡 Hint: ${hint}`);
@@ -89,23 +225,79 @@ async function sendSceneWithButtons(
         components: buttonComponents,
     };
 
+    // Store the mapping for handling responses before sending, so even the quickest click finds it.
+    // The form is tied to the session's current turn and replaces earlier forms, so old scenes cannot be played.
+    const session = userId ? getSession(userId) : undefined;
+    const sceneForm = session && { userId: session.userId, sessionId: session.sessionId, turn: session.state.turn, choices };
+    if (sceneForm) {
+        forgetForms(sceneForm.userId);
+        interactionRequestMap.set(formId, sceneForm);
+    }
+
     // Send interaction request with buttons (form title displays the scene text)
-    const { eventId } = await handler.sendInteractionRequest(channelId, {
-        content: {
-            case: 'form',
-            value: form,
-        },
-    } as any);
+    let eventId: string;
+    try {
+        ({ eventId } = await handler.sendInteractionRequest(channelId, {
+            content: {
+                case: 'form',
+                value: form,
+            },
+        } as any));
+    } catch (error) {
+        // A form that never reached the channel cannot be clicked; drop it unless a newer scene replaced it
+        if (sceneForm && interactionRequestMap.get(formId) === sceneForm) interactionRequestMap.delete(formId);
+        throw error;
+    }
 
-    // Store the mapping for handling responses
-    // Store by both formId and eventId to handle different response formats
-    if (userId) {
-        interactionRequestMap.set(formId, { userId, choices });
-        interactionRequestMap.set(eventId, { userId, choices }); // Also store by eventId as fallback
-        console.log('Stored interaction mapping:', { formId, eventId, userId, choicesCount: choices.length });
+    // Responses may carry the event id instead of the form id
+    if (sceneForm) {
+        interactionRequestMap.set(eventId, sceneForm);
+        console.log('Stored interaction mapping:', { formId, eventId, userId, turn: sceneForm.turn, choicesCount: choices.length });
     }
 }
 
+/**
+ * Drop every scene form sent to a player
+ */
+function forgetForms(userId: string): void {
+    for (const [requestId, form] of interactionRequestMap) {
+        if (form.userId === userId) interactionRequestMap.delete(requestId);
+    }
+}
+
+/**
+ * Forget handled interaction events once a redelivery of them is no longer expected
+ */
+function pruneHandledInteractions(now = Date.now()): void {
+    for (const [eventId, handledAt] of handledInteractions) {
+        if (now - handledAt > HANDLED_INTERACTION_TTL_MS) handledInteractions.delete(eventId);
+    }
+}
+
+/**
+ * Send the static filler scene without advancing the game
+ */
+async function sendStaticFiller(
+    handler: Parameters<Parameters<typeof bot.onSlashCommand>[1]>[0],
+    session: NonNullable<ReturnType<typeof getSession>>,
+    choices: string[]
+): Promise<void> {
+    const filler = createStaticFillerScene(choices);
+    appendRunEvent(session.sessionId, { type: 'scene', turn: session.state.turn, source: 'filler', scene: filler });
+    lastChoices.set(session.userId, filler.choices);
+    await sendSceneWithButtons(
+        handler,
+        session.channelId,
+        filler.scene_text,
+        filler.choices,
+        filler.hint,
+        session.userId,
+        session.state,
+        undefined,
+        getSessionScenario(session)
+    );
+}
+
 /**
  * Format scene with choices (fallback text format)
  */
@@ -124,112 +316,615 @@ function formatScene(sceneText: string, choices: string[]): string {
  */
 function formatStatus(session: NonNullable<ReturnType<typeof getSession>>): string {
     const { state } = session;
-    return `**Game Status** (Turn ${state.turn}/10)\n\n` +
-        `⏰ Time Remaining: ${state.time_remaining}\n` +
-        `🤝 Trust: ${state.trust}\n` +
-        `🧠 Sanity: ${state.sanity}\n` +
-        `💡 Insight: ${state.insight}\n` +
-        `🔐 System Access: ${state.system_access}/3\n` +
-        `⚖️ Morality: ${state.morality}\n`;
+    const scenario = getSessionScenario(session);
+    let message = `**Game Status** — ${scenario.name} (Turn ${state.turn}/${scenario.turns})\n`;
+    message += `Length: ${formatGameLength(resolveScenario(session.scenarioId), session.length)}\n`;
+    message += `Difficulty: ${formatDifficulty(session.difficulty)}\n\n`;
+    for (const key of STAT_KEYS) {
+        const stat = scenario.stats[key];
+        // Show the maximum for small bounded stats such as system access
+        const suffix = key === 'system_access' ? `/${stat.max}` : '';
+        message += `${stat.emoji} ${stat.label}: ${state[key]}${suffix}\n`;
+    }
+    if (scenario.items.length > 0 || scenario.clues.length > 0) {
+        message += `\n🎒 Inventory: ${formatInventory(state, scenario)}\n`;
+        message += `🔍 Clues (${state.clues.length}/${scenario.clues.length}): ${formatClues(state, scenario)}\n`;
+    }
+    if (state.status_effects.length > 0) {
+        message += `🩺 Effects: ${formatEffects(state, scenario)}\n`;
+    }
+    // What the run would score if it ended now
+    const seasonId = getSessionSeasonId(session);
+    const projection = computeScoreBreakdown(state, scenario, session.difficulty, getScoreVersion(seasonId));
+    const placement = getTierPlacement(projection.total, [...getSeasonScores(seasonId, session.length), projection.total]);
+    message += `\n**Projected Score:** ${projection.total} (${formatPlacement(placement)})\n${formatScoreBreakdown(projection)}\n`;
+    return message;
+}
+
+/**
+ * Format a player's ending collection progress for a scenario, e.g. "3/9 endings"
+ */
+function formatEndingProgress(userId: string, scenario: ScenarioPack): string {
+    const discovered = getDiscoveredEndings(userId);
+    const found = scenario.endings.filter(ending => discovered.has(ending.id)).length;
+    return `${found}/${scenario.endings.length} endings`;
+}
+
+/**
+ * Format a time for round messages, e.g. "2026-10-19 18:00 UTC"
+ */
+function formatRoundTime(date: Date): string {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+/**
+ * Format where a round is in its lifecycle, e.g. "open until 2026-10-19 18:00 UTC"
+ */
+function formatRoundStatus(round: RoundState): string {
+    switch (round.status) {
+        case 'open':
+            return `open until ${formatRoundTime(round.closesAt)}`;
+        case 'closing':
+            return `closed to new runs, settling by ${formatRoundTime(round.graceEndsAt!)}`;
+        case 'settled':
+            return round.winnerId ? `settled, won by <@${round.winnerId}>` : 'settled';
+        case 'cancelled':
+            return round.carriedOverTo ? `cancelled, pool carried over to \`${round.carriedOverTo}\`` : 'cancelled';
+    }
+}
+
+/**
+ * Format where a player who just finished stands in their round
+ */
+function formatRoundStanding(round: RoundState, userId: string): string {
+    const ranked = [...round.completedPlayers.entries()].sort(([, a], [, b]) => b.final_score - a.final_score);
+    const rank = ranked.findIndex(([playerId]) => playerId === userId) + 1;
+    const condition = ranked.length < ROUND_MIN_PLAYERS ? `, if at least ${ROUND_MIN_PLAYERS} players finish` : '';
+    return `You're #${rank} of ${ranked.length} in round \`${round.roundId}\` (${formatRoundStatus(round)}). ` +
+        `The top score takes the ${round.prizePool.toString()} wei pool when the round settles${condition}.`;
+}
+
+/**
+ * Format a round lifecycle announcement for the round's channels
+ */
+function formatRoundAnnouncement({ kind, round }: RoundAnnouncement): string {
+    const pool = `${round.prizePool.toString()} wei`;
+    switch (kind) {
+        case 'opened':
+            return `🎲 **Round \`${round.roundId}\` is open** until ${formatRoundTime(round.closesAt)}. Prize pool: ${pool}. ` +
+                `At least ${ROUND_MIN_PLAYERS} players must finish for it to pay out. Use \`/start\` to play!`;
+        case 'last_call':
+            return `⏳ **Last call:** round \`${round.roundId}\` closes at ${formatRoundTime(round.closesAt)}. Prize pool: ${pool}. ` +
+                `Runs started before then still count.`;
+        case 'closing':
+            return `🔔 **Round \`${round.roundId}\` is closed to new runs.** Players still in a run have until ` +
+                `${formatRoundTime(round.graceEndsAt!)} to finish. New games join the next round.`;
+        case 'settled': {
+            const winner = getRoundWinner(round.roundId)!;
+            return `🏆 **Round \`${round.roundId}\` settled!** <@${winner.userId}> wins ${pool} with a score of ` +
+                `${winner.result.final_score} (${round.completedPlayers.size} players finished).`;
+        }
+        case 'cancelled':
+            return `❌ **Round \`${round.roundId}\` cancelled:** ${round.completedPlayers.size} of the ${ROUND_MIN_PLAYERS} players needed finished.` +
+                (round.carriedOverTo ? ` Its ${pool} pool carries over to round \`${round.carriedOverTo}\`.` : '');
+    }
+}
+
+/**
+ * Format a season's dates, e.g. "2026-10-01 00:00 UTC – 2026-11-01 00:00 UTC"
+ */
+function formatSeasonDates(season: SeasonRecord): string {
+    const end = season.endedAt ?? season.endsAt;
+    return `${formatRoundTime(season.startedAt)} – ${end ? formatRoundTime(end) : 'until an admin ends it'}`;
+}
+
+/**
+ * End a scope's current season and start its next, closing its open round so new runs join the
+ * new season. Announced in the open round's channels, except the one the admin ended it from.
+ */
+async function endSeason(scopeId: string, name?: string, fromChannelId?: string): Promise<string> {
+    const channelIds = [...(getLatestRound(scopeId)?.channelIds ?? [])];
+    const { ended, started } = rollOverSeason(scopeId, name);
+    closeOpenRound(scopeId);
+    const message = `📅 **Season \`${ended.name}\` has ended.** Season \`${started.name}\` starts now (${formatSeasonDates(started)}). ` +
+        `Runs already in progress count for \`${ended.name}\`; its final standings are archived once its last round settles ` +
+        `(see \`/leaderboard season:${ended.name}\`).`;
+    for (const channelId of channelIds.filter(id => id !== fromChannelId)) {
+        try {
+            await bot.sendMessage(channelId, message);
+        } catch (error) {
+            console.error('Could not post season announcement:', { channelId, error });
+        }
+    }
+    return message;
+}
+
+/**
+ * Format ranked leaderboard entries, each with its score under its season's current scoring
+ */
+function formatLeaderboardEntries(entries: LeaderboardEntry[]): string {
+    let message = '';
+    entries.forEach((entry, index) => {
+        const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
+        // Scores from before a mid-season scoring change are shown rescored, with what they were recorded as
+        const score = getComparableScore(entry);
+        const recorded = entry.score_version === getScoreVersion(entry.season_id) ? '' : ` — scored ${entry.score} under ${entry.score_version}`;
+        // Tier assigned at finish, and where the run stands now that more of the season has played
+        const now = getCurrentPlacement(entry);
+        const standing = now.tier === entry.tier ? formatPlacement(now) : `${formatPlacement(now)}; ${entry.tier} at finish`;
+        message += `${medal} <@${entry.wallet}> - Score: ${score} (${standing}, ${DIFFICULTIES[entry.difficulty].label}${recorded})\n`;
+        message += `   Ending: ${entry.ending_id}\n\n`;
+    });
+    return message;
 }
 
 /**
  * Format player stats compactly for scene display
  */
-function formatStatsCompact(state: PlayerState): string {
-    return `Turn ${state.turn}/10 | ⏰${state.time_remaining} | 🤝${state.trust} | 🧠${state.sanity} | 💡${state.insight} | 🔐${state.system_access}/3 | ⚖️${state.morality}`;
+function formatStatsCompact(state: PlayerState, scenario: ScenarioPack): string {
+    const stats = STAT_KEYS.map(key => {
+        const stat = scenario.stats[key];
+        return `${stat.emoji}${state[key]}${key === 'system_access' ? `/${stat.max}` : ''}`;
+    });
+    if (scenario.items.length > 0 || scenario.clues.length > 0) {
+        stats.push(`🎒${state.inventory.length}`, `🔍${state.clues.length}/${scenario.clues.length}`);
+    }
+    if (state.status_effects.length > 0) {
+        stats.push(formatEffects(state, scenario));
+    }
+    return [`Turn ${state.turn}/${scenario.turns}`, ...stats].join(' | ');
 }
 
 /**
- * Process game turn
+ * Session and round a session's API usage is charged to
+ */
+function usageContext(session: NonNullable<ReturnType<typeof getSession>>): UsageContext {
+    return { sessionId: session.sessionId, roundId: session.roundId };
+}
+
+/**
+ * Get the image for a scene. Channels with images turned off get none; once the session or
+ * daily budget says to drop images only cached ones are used. Images are optional, so
+ * failures only return undefined.
+ */
+async function generateSceneImageWithinBudget(
+    session: NonNullable<ReturnType<typeof getSession>>,
+    scenario: ScenarioPack,
+    sceneText: string,
+    turn: number
+): Promise<string | undefined> {
+    if (!areChannelImagesEnabled(session.channelId)) {
+        return undefined;
+    }
+    const usage = usageContext(session);
+    const mode = getBudgetMode(usage);
+    if (mode !== 'normal') {
+        console.log(`Budget mode ${mode}: only cached scene images for session ${session.sessionId}`);
+    }
+    try {
+        // The first scene's image never depends on history
+        const actionHistory = turn === 1 ? [] : session.actionHistory;
+        return await sceneImages.getImageUrl({ scenario, sceneText, turn, actionHistory, usage }, mode === 'normal') || undefined;
+    } catch (error) {
+        console.error('Error generating scene image:', error);
+        return undefined;
+    }
+}
+
+/**
+ * Produce the next scene for a session, from the story graph when one is being played
+ * and from the narrative provider otherwise. Nothing on the session is changed here, so
+ * a failure leaves the turn untouched; the caller commits the returned state and node.
+ */
+async function generateNextScene(
+    session: NonNullable<ReturnType<typeof getSession>>,
+    scenario: ScenarioPack,
+    action: ActionRecord | null
+): Promise<{ scene: GPTSceneResponse; state: PlayerState; nodeId: string | null; storyEnding: GPTEndingResponse | null }> {
+    const story = session.story ? getStory(session.story.storyId) : undefined;
+    let state = session.state;
+    let nodeId: string | null = null;
+    appendRunEvent(session.sessionId, { type: 'scene_requested', turn: state.turn, action });
+    
+    if (story && session.story) {
+        const step = advanceStory(story, session.story, session.state, action?.text ?? null, scenario);
+        state = step.state;
+        nodeId = step.nodeId;
+        if (step.choice) {
+            appendRunEvent(session.sessionId, { type: 'choice_effects', before: session.state, effects: step.choice.effects, after: state });
+        }
+        if (nodeId) {
+            const scene = buildStoryScene(story, nodeId, state);
+            appendRunEvent(session.sessionId, { type: 'scene', turn: state.turn, source: 'story', nodeId, scene });
+            return {
+                scene,
+                state,
+                nodeId,
+                storyEnding: getStoryEnding(story, nodeId),
+            };
+        }
+    }
+    
+    const scene = await narrative.generateScene({
+        scenario,
+        turn: state.turn,
+        playerState: state,
+        actionHistory: session.actionHistory,
+        previousAction: action,
+        memory: session.memory,
+        difficulty: session.difficulty,
+        usage: usageContext(session),
+    });
+    appendRunEvent(session.sessionId, { type: 'scene', turn: state.turn, source: 'model', scene });
+    return { scene, state, nodeId, storyEnding: null };
+}
+
+/**
+ * Apply a scene's state changes and record the transition, with every capped or
+ * rejected change, in the run log. The choices of a model scene are then adjusted to the
+ * player's status effects; a scene authored at a story node keeps the node's choices,
+ * since an added choice leads to no node and a hidden one could leave no way on.
+ */
+function applySceneState(
+    session: NonNullable<ReturnType<typeof getSession>>,
+    state: PlayerState,
+    scene: GPTSceneResponse,
+    scenario: ScenarioPack,
+    nodeId: string | null
+): PlayerState {
+    const changes = scene.state_changes;
+    const adjustments: StateAdjustment[] = [];
+    const after = applyStateChanges(state, changes, scenario, adjustments);
+    if (adjustments.length > 0) {
+        console.warn(`Adjusted state changes for session ${session.sessionId}:`, adjustments);
+    }
+    appendRunEvent(session.sessionId, { type: 'state_changes', before: state, changes, after, adjustments });
+    if (nodeId === null) {
+        scene.choices = applyEffectChoices(scene.choices, after, scenario);
+    }
+    return after;
+}
+
+/**
+ * Format a capped or rejected state change for run log dumps, e.g. "insight +40 capped to +15 (at most ±15 per turn)"
+ */
+function formatAdjustment(adjustment: StateAdjustment): string {
+    const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+    const { key, requested, applied, kind, reason } = adjustment;
+    if (applied === null) {
+        return `${key} ${requested} ${kind} (${reason})`;
+    }
+    return `${key} ${typeof requested === 'number' ? signed(requested) : requested} ${kind} to ${signed(applied)} (${reason})`;
+}
+
+/**
+ * Open the run log of a new session with its starting state
+ */
+function startRunLog(session: NonNullable<ReturnType<typeof getSession>>): void {
+    appendRunEvent(session.sessionId, {
+        type: 'session_started',
+        userId: session.userId,
+        scenarioId: session.scenarioId,
+        length: session.length,
+        difficulty: session.difficulty,
+        storyId: session.story?.storyId,
+        roundId: session.roundId,
+        provider: narrative.name,
+        tipAmount: session.tipAmount.toString(),
+        state: session.state,
+    });
+}
+
+/**
+ * Format a run log for admins: who played what, each action with the stat changes it
+ * caused, the ending, and whether the logged score checks out
+ */
+function formatRunLog(events: RunEvent[]): string {
+    const start = events.find(event => event.type === 'session_started');
+    if (!start || start.type !== 'session_started') {
+        return 'Run log has no start event.';
+    }
+    const scenario = getScenario(start.scenarioId);
+    let message = `🧾 **Run ${start.sessionId}**\n`;
+    message += `Player: <@${start.userId}> · ${start.storyId ?? start.scenarioId} · ${start.length}, ${start.difficulty} · ${start.roundId} · ${start.provider} · tip ${start.tipAmount} wei\n`;
+    message += `Started: ${start.at} · ${events.length} events\n\n`;
+
+    for (const event of events) {
+        if (event.type === 'action_chosen') {
+            const label = event.action.kind === 'free_text' ? 'typed' : 'chose';
+            message += `**T${event.turn}** ${label} "${event.action.text}"\n`;
+        } else if (event.type === 'scene' && event.source === 'filler') {
+            message += `   ⚠️ scene generation failed, filler scene sent\n`;
+        } else if (event.type === 'model_response' && event.issues) {
+            message += `   ⚠️ invalid ${event.kind} response from ${event.model} (attempt ${event.attempt + 1})\n`;
+        } else if (event.type === 'state_changes' || event.type === 'choice_effects') {
+            const changes = STAT_KEYS.filter(key => event.before[key] !== event.after[key]).map(
+                key => `${scenario?.stats[key].emoji ?? key} ${event.before[key]}→${event.after[key]}`
+            );
+            changes.push(...event.after.inventory.filter(id => !event.before.inventory.includes(id)).map(id => `+${id}`));
+            changes.push(...event.before.inventory.filter(id => !event.after.inventory.includes(id)).map(id => `-${id}`));
+            changes.push(...event.after.clues.filter(id => !event.before.clues.includes(id)).map(id => `🔍${id}`));
+            const source = event.type === 'choice_effects' ? 'choice' : 'scene';
+            message += `   ${source}: ${changes.join(', ') || 'no change'}\n`;
+            if (event.type === 'state_changes') {
+                for (const adjustment of event.adjustments ?? []) {
+                    message += `   ⚠️ ${formatAdjustment(adjustment)}\n`;
+                }
+            }
+        } else if (event.type === 'ending') {
+            message += `\n🎭 ${event.ending.ending_id} "${event.ending.ending_title}" (${event.source})\n`;
+        } else if (event.type === 'score') {
+            message += `Score: ${event.result.final_score} (${formatPlacement(event.result)})\n`;
+        }
+    }
+
+    const verification = verifyRun(events);
+    message += verification.ok
+        ? `\n✅ Verified: every transition replays${verification.recomputedScore !== null ? ` and the score ${verification.recomputedScore} matches` : ''}`
+        : `\n❌ Verification failed:\n- ${verification.issues.join('\n- ')}`;
+    return message;
+}
+
+const summariesInProgress = new Set<string>(); // sessionIds whose story summary is being refreshed
+
+/**
+ * Refresh the session's rolling story summary once enough unsummarized turns have piled up.
+ * A failed refresh is retried on a later turn; the scenes stay in memory meanwhile.
+ * Runs outside the turn lock, so the player can already play on while it is written.
+ */
+async function refreshStoryMemory(
+    session: NonNullable<ReturnType<typeof getSession>>,
+    scenario: ScenarioPack
+): Promise<void> {
+    const { memory } = session;
+    if (!needsSummary(memory) || summariesInProgress.has(session.sessionId)) return;
+    const throughTurn = memory.scenes[memory.scenes.length - 1].turn;
+    summariesInProgress.add(session.sessionId);
+    try {
+        const summary = await narrative.summarizeStory({ scenario, memory, usage: usageContext(session) });
+        applySummary(memory, summary, throughTurn);
+        // The run may have ended while the summary was written
+        if (session.isActive && getSession(session.userId) === session) {
+            updateSession(session.userId, { memory });
+        }
+    } catch (error) {
+        console.error('Story summary refresh failed:', error);
+    } finally {
+        summariesInProgress.delete(session.sessionId);
+    }
+}
+
+/**
+ * Score a run's ending, log it and end the session. Returns the result and the round it
+ * competes in (undefined when that round settled before the run finished).
+ */
+function finishRun(
+    session: NonNullable<ReturnType<typeof getSession>>,
+    scenario: ScenarioPack,
+    ending: GPTEndingResponse,
+    source: 'model' | 'story' | 'fallback' | 'forfeit'
+): { result: EndingResult; round: RoundState | undefined } {
+    const seasonId = getSessionSeasonId(session);
+    const result = createEndingResult(
+        ending,
+        session.state,
+        scenario,
+        session.difficulty,
+        getScoreVersion(seasonId),
+        getSeasonScores(seasonId, session.length)
+    );
+    appendRunEvent(session.sessionId, { type: 'ending', source, ending, finalState: session.state });
+    appendRunEvent(session.sessionId, { type: 'score', result });
+    
+    // End session
+    const round = endSession(session.userId, result);
+    console.log('Run usage:', {
+        sessionId: session.sessionId,
+        tip: session.tipAmount.toString(),
+        usage: formatUsage(getSessionUsage(session.sessionId)),
+    });
+    return { result, round };
+}
+
+/**
+ * Format where a finished run leaves its player in the round
+ */
+function formatRoundResult(round: RoundState | undefined, userId: string): string {
+    // The round's winner is decided when it settles, not by who finishes first
+    return round
+        ? `🏁 ${formatRoundStanding(round, userId)}`
+        : `🏁 Your round settled before you finished, so this run counts for the leaderboard only.`;
+}
+
+/**
+ * Drop a player's last choices and every scene form sent to them, once their run is over
+ */
+function forgetChoices(userId: string): void {
+    lastChoices.delete(userId);
+    forgetForms(userId);
+}
+
+/**
+ * End a run the player walked away from (idle) or gave up on (/abandon): time runs out,
+ * the scenario's catch-all ending is scored and the session is cleared. Forfeited runs count
+ * for the leaderboard and round but do not discover endings or unlock achievements.
+ * Returns the message announcing it.
+ */
+function forfeitRun(session: NonNullable<ReturnType<typeof getSession>>, reason: ForfeitReason): string {
+    const { userId } = session;
+    const scenario = getSessionScenario(session);
+    const before = session.state;
+    session.state = createForfeitState(before, scenario);
+    appendRunEvent(session.sessionId, { type: 'forfeit', reason, before, after: session.state });
+    const { result, round } = finishRun(session, scenario, createForfeitEnding(scenario, reason), 'forfeit');
+    clearSession(userId);
+    forgetChoices(userId);
+
+    const heading = reason === 'idle' ? `<@${userId}>'s game timed out.` : `<@${userId}> abandoned their game.`;
+    let message = `⌛ ${heading}\n\n**🎭 ${result.ending_title}**\n\n${result.ending_text}\n\n`;
+    message += `**Final Score:** ${result.final_score} (${formatPlacement(result)})\n\n`;
+    message += `${formatRoundResult(round, userId)}\n`;
+    message += `\nUse \`/start\` to play again.`;
+    return message;
+}
+
+/**
+ * Process game turn. Turns of a session are played one at a time: a request that arrives
+ * while one is still being played (e.g. a double click) is answered and dropped.
+ * Returns whether the turn was played, so a dropped or failed one can be retried.
  */
 async function processTurn(
     handler: Parameters<Parameters<typeof bot.onSlashCommand>[1]>[0],
     session: NonNullable<ReturnType<typeof getSession>>,
-    action: string
-) {
+    actionText: string,
+    kind: ActionKind = 'choice'
+): Promise<boolean> {
+    if (!beginTurn(session.sessionId)) {
+        await handler.sendMessage(session.channelId, `⏳ Still thinking about your last move… hang on for the next scene.`);
+        return false;
+    }
+    let played: boolean;
+    try {
+        played = await playTurn(handler, session, actionText, kind);
+    } finally {
+        endTurn(session.sessionId);
+    }
+    // Summarize after the scene is out and the lock released, so the player is not kept waiting
+    if (session.isActive) {
+        await refreshStoryMemory(session, getSessionScenario(session));
+    }
+    return played;
+}
+
+/**
+ * Play one turn of a session; only called by processTurn, which holds the session's turn lock.
+ * Returns false when the turn failed or only a filler scene was sent in its place.
+ */
+async function playTurn(
+    handler: Parameters<Parameters<typeof bot.onSlashCommand>[1]>[0],
+    session: NonNullable<ReturnType<typeof getSession>>,
+    actionText: string,
+    kind: ActionKind
+): Promise<boolean> {
     const { channelId, userId } = session;
+    const scenario = getSessionScenario(session);
+    const action: ActionRecord = { text: actionText, kind };
+    touchSession(userId);
+    appendRunEvent(session.sessionId, { type: 'action_chosen', turn: session.state.turn, action });
     
     try {
         // Generate next scene with full action history and the previous action (the choice the user just made)
         // Pass the action so GPT knows what decision was just made and can start the scene with its result
-        const scene = await generateScene(
-            session.state.turn,
-            session.state,
-            session.actionHistory,
-            action // Pass the choice the user just made so GPT can start the scene with its result
-        );
+        let next;
+        try {
+            next = await generateNextScene(session, scenario, action);
+        } catch (error) {
+            // Never lose the player's turn to an upstream failure: keep state as-is and re-offer the choices
+            console.error('Scene generation failed, sending static filler scene:', error);
+            await sendStaticFiller(handler, session, lastChoices.get(userId) ?? []);
+            return false;
+        }
+        
+        const { scene } = next;
+        const story = session.story ? getStory(session.story.storyId) : undefined;
         
         // Update state
-        session.state = applyStateChanges(session.state, scene.state_changes);
+        session.state = applySceneState(session, next.state, scene, scenario, next.nodeId);
+        if (session.story) {
+            session.story.nodeId = next.nodeId;
+        }
+        recordScene(session.memory, next.state.turn, action, scene);
         // Add current action to history after generating scene
         session.actionHistory.push(action);
-        if (session.actionHistory.length > 10) {
-            // Keep last 10 actions for full context (game is 10 turns)
+        if (session.actionHistory.length > scenario.turns) {
+            // Keep one action per turn for full context
             session.actionHistory.shift();
         }
         
         // Store choices for this turn
         lastChoices.set(userId, scene.choices);
         
-        // Check if game should end
-        if (shouldEndGame(session.state)) {
+        // Check if game should end (an authored ending node ends it immediately)
+        if (next.storyEnding || shouldEndGame(session.state, scenario)) {
             // Generate ending
-            const ending = await generateEnding(session.state, session.actionHistory);
-            const result = createEndingResult(ending, session.state);
-            
-            // End session
-            endSession(userId, ending, result.final_score, result.tier);
+            let ending = next.storyEnding;
+            if (!ending && story?.mode === 'authored') {
+                // Authored runs never call the model, even when turns run out before an ending node
+                ending = getStoryEnding(story, story.fallback_ending);
+            }
+            // Authored endings are already catalog entries; anything else must earn its catalog ending
+            let authoredEnding = ending !== null;
+            let endingSource: 'model' | 'story' | 'fallback' = authoredEnding ? 'story' : 'model';
+            if (!ending) {
+                try {
+                    ending = await narrative.generateEnding({
+                        scenario,
+                        finalState: session.state,
+                        actionHistory: session.actionHistory,
+                        memory: session.memory,
+                        difficulty: session.difficulty,
+                        usage: usageContext(session),
+                    });
+                } catch (error) {
+                    console.error('Ending generation failed, using fallback ending:', error);
+                    ending = (story && getStoryEnding(story, story.fallback_ending)) || createFallbackEnding(session.state);
+                    authoredEnding = !!story;
+                    endingSource = 'fallback';
+                }
+            }
+            ending = canonicalizeEnding(scenario, session.state, ending, authoredEnding);
+            const { result, round } = finishRun(session, scenario, ending, endingSource);
+            const isNewEnding = recordEndingDiscovery(userId, ending.ending_id);
+            // Winning is only known when the round settles; the winner's run is checked again then
+            const finishedRun = getFinishedRun(getRunLog(session.sessionId), false);
+            const newAchievements = finishedRun ? recordAchievements(finishedRun) : [];
             
             // Send ending
             let endingMessage = `**🎭 ${result.ending_title}**\n\n${result.ending_text}\n\n`;
-            endingMessage += `**Final Score:** ${result.final_score} (${result.tier} Tier)\n\n`;
-            
-            // Check if round ended and winner gets prize
-            const round = getCurrentRound();
-            if (!round.isActive && round.completedPlayers.size > 0) {
-                const winner = getRoundWinner(round.roundId);
-                if (winner && winner.userId === userId) {
-                    endingMessage += `🎉 **You won the round!** Prize pool: ${round.prizePool.toString()} wei\n`;
-                    // TODO: Send tip to winner using bot.viem and execute
-                } else if (winner) {
-                    endingMessage += `🏆 Winner: <@${winner.userId}> with score ${winner.result.final_score}\n`;
-                }
+            endingMessage += `**Final Score:** ${result.final_score} (${formatPlacement(result)})\n\n`;
+            endingMessage += `${formatScoreBreakdown(result.breakdown)}\n\n`;
+            if (isNewEnding) {
+                endingMessage += `🆕 **New ending discovered!** ${formatEndingProgress(userId, scenario)} — see \`/endings\`\n\n`;
+            }
+            for (const achievement of newAchievements) {
+                endingMessage += `🏅 **Achievement unlocked:** ${achievement.emoji} **${achievement.name}** — ${achievement.description}\n`;
+            }
+            if (newAchievements.length > 0) {
+                endingMessage += `See \`/achievements\` for your collection.\n\n`;
             }
             
+            endingMessage += `${formatRoundResult(round, userId)}\n`;
             endingMessage += `\nUse \`/start\` to play again.`;
             
             await handler.sendMessage(channelId, endingMessage);
             clearSession(userId);
-            lastChoices.delete(userId);
+            forgetChoices(userId);
         } else {
             // Generate image for the scene (optional, won't break game if it fails)
-            let imageUrl: string | undefined = undefined;
-            try {
-                imageUrl = await generateSceneImage(scene.scene_text, session.state.turn, session.actionHistory) || undefined;
-            } catch (error) {
-                console.error('Error generating scene image:', error);
-                // Continue without image
-            }
+            const imageUrl = await generateSceneImageWithinBudget(session, scenario, scene.scene_text, session.state.turn);
             
             // Send scene with buttons (include updated state after scene generation)
-            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl);
+            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl, scenario);
             
             // Update session
             updateSession(userId, { state: session.state, actionHistory: session.actionHistory });
         }
+        return true;
     } catch (error) {
         console.error('Error processing turn:', error);
         await handler.sendMessage(
             channelId,
             `❌ Error processing your turn. Please try again or use \`/start\` to restart.`
         );
+        return false;
     }
 }
 
 // Handle tips - check if user wants to start game
 bot.onTip(async (handler, event) => {
-    const { channelId, userId, senderAddress, receiverAddress, amount, messageId } = event;
+    const { spaceId, channelId, userId, senderAddress, receiverAddress, amount, messageId } = event;
+    // Tips only ever fund the prize pools of the channel or space they were sent in
+    const scopeId = getScopeId(spaceId, channelId);
     
     try {
         
@@ -252,8 +947,7 @@ bot.onTip(async (handler, event) => {
         const existingSession = getSession(userId) || getSession(senderAddress);
         if (existingSession && existingSession.isActive) {
             // User already has a game - just add tip to prize pool
-            const round = getCurrentRound();
-            round.prizePool += amount;
+            addToPrizePool(amount, scopeId, existingSession.roundId);
             await handler.sendMessage(
                 channelId,
                 `✅ Tip received! Your ${amount.toString()} wei has been added to the prize pool.\n` +
@@ -263,7 +957,11 @@ bot.onTip(async (handler, event) => {
         }
         
         // Create new session from tip - link userId and smartAccountAddress
-        const session = createSession(userId, senderAddress, channelId, amount);
+        // Tips cannot carry arguments, so tip-started games use the default scenario, length and difficulty
+        const difficulty = getOpenRound(scopeId)?.difficulty ?? DEFAULT_DIFFICULTY;
+        const session = createSession(userId, senderAddress, channelId, scopeId, amount, undefined, resolveScenario(), DEFAULT_GAME_LENGTH, difficulty);
+        const scenario = getSessionScenario(session);
+        startRunLog(session);
         
         // Send immediate confirmation that tip was received with account linkage
         await handler.sendMessage(
@@ -271,12 +969,26 @@ bot.onTip(async (handler, event) => {
             `✅ Tip received from <@${userId}>! Smart account: \`${senderAddress}\`\nStarting your game...`
         );
         
-        // Generate first scene
+        // Generate first scene, holding the turn lock so early clicks and commands wait for it
+        beginTurn(session.sessionId);
         try {
             console.log('Generating first scene for user:', userId, 'smart account:', senderAddress);
-            const scene = await generateScene(1, session.state, []);
-            session.state = applyStateChanges(session.state, scene.state_changes);
-            session.actionHistory.push('game_start');
+            let next;
+            try {
+                next = await generateNextScene(session, scenario, null);
+            } catch (error) {
+                // The tip paid for this run, so keep the session alive rather than discarding it
+                console.error('First scene generation failed, sending static filler scene:', error);
+                await sendStaticFiller(handler, session, STATIC_FILLER_CHOICES);
+                return;
+            }
+            const { scene } = next;
+            session.state = applySceneState(session, next.state, scene, scenario, next.nodeId);
+            if (session.story) {
+                session.story.nodeId = next.nodeId;
+            }
+            recordScene(session.memory, next.state.turn, undefined, scene);
+            session.actionHistory.push({ text: 'game_start', kind: 'start' });
             // Store choices by userId for consistency
             lastChoices.set(userId, scene.choices);
             
@@ -287,16 +999,10 @@ bot.onTip(async (handler, event) => {
             );
             
             // Generate image for the first scene (optional, won't break game if it fails)
-            let imageUrl: string | undefined = undefined;
-            try {
-                imageUrl = await generateSceneImage(scene.scene_text, 1, []) || undefined;
-            } catch (error) {
-                console.error('Error generating scene image:', error);
-                // Continue without image
-            }
+            const imageUrl = await generateSceneImageWithinBudget(session, scenario, scene.scene_text, 1);
             
             // Send first scene with buttons (include updated state after scene generation)
-            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl);
+            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl, scenario);
             
             updateSession(userId, { state: session.state, actionHistory: session.actionHistory });
             console.log('Game started successfully for user:', userId, 'smart account:', senderAddress);
@@ -307,6 +1013,8 @@ bot.onTip(async (handler, event) => {
                 `❌ Error starting game: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`
             );
             clearSession(userId);
+        } finally {
+            endTurn(session.sessionId);
         }
     } catch (error) {
         console.error('Error in onTip handler:', error);
@@ -326,10 +1034,11 @@ bot.onTip(async (handler, event) => {
 // Handle interaction responses (button clicks)
 bot.onInteractionResponse(async (handler, event) => {
     try {
-        const { userId, channelId, response } = event;
+        const { userId, channelId, eventId, response } = event;
         
         console.log('Interaction response received:', {
             userId,
+            eventId,
             hasResponse: !!response,
             hasPayload: !!response?.payload,
             payloadContentCase: response?.payload?.content?.case,
@@ -341,6 +1050,12 @@ bot.onInteractionResponse(async (handler, event) => {
             return;
         }
         
+        // Webhooks can be delivered more than once; each event plays at most one turn
+        if (handledInteractions.has(eventId) || interactionsInProgress.has(eventId)) {
+            console.log('Interaction response already handled, ignoring redelivery:', { eventId });
+            return;
+        }
+        
         const formResponse = response.payload.content.value;
         const requestId = formResponse.requestId;
         
@@ -348,29 +1063,13 @@ bot.onInteractionResponse(async (handler, event) => {
             requestId,
             userId,
             componentsCount: formResponse.components?.length || 0,
-            availableKeys: Array.from(interactionRequestMap.keys()).slice(0, 10),
         });
         
-        // Find the interaction request in our map
-        // Try requestId first (form's id), then check if it's an eventId
-        let interactionData = interactionRequestMap.get(requestId);
-        
-        // If not found, try looking up by partial match (in case of format differences)
-        if (!interactionData) {
-            // Try to find by matching formId pattern or eventId
-            for (const [key, value] of interactionRequestMap.entries()) {
-                if (key.includes(requestId) || requestId.includes(key)) {
-                    interactionData = value;
-                    console.log('Found interaction data by partial match:', { key, requestId });
-                    break;
-                }
-            }
-        }
-        
+        // Find the interaction request in our map (keyed by the form's id and by its event id)
+        const interactionData = interactionRequestMap.get(requestId);
         if (!interactionData) {
             console.log('Interaction request not found for requestId:', requestId);
-            console.log('Full map contents:', Array.from(interactionRequestMap.entries()).map(([k, v]) => ({ key: k, userId: v.userId })));
-            await handler.sendMessage(channelId, `❌ Could not find interaction data. Please try using /choose commands instead.`);
+            await handler.sendMessage(channelId, `⌛ That scene has already been played. Use the buttons on your latest scene, or the /choose commands.`);
             return;
         }
         
@@ -387,6 +1086,12 @@ bot.onInteractionResponse(async (handler, event) => {
             return;
         }
         
+        // Buttons only play the turn they were sent for
+        if (interactionData.sessionId !== session.sessionId || interactionData.turn !== session.state.turn) {
+            await handler.sendMessage(channelId, `⌛ That scene has already been played. Use the buttons on your latest scene, or the /choose commands.`);
+            return;
+        }
+        
         // Check which button was clicked (iterate through all components like the example)
         let selectedChoice: string | null = null;
         for (const component of formResponse.components || []) {
@@ -409,13 +1114,18 @@ bot.onInteractionResponse(async (handler, event) => {
             return;
         }
         
-        // Remove from interaction map
-        interactionRequestMap.delete(requestId);
-        
         console.log('Processing turn with choice:', selectedChoice);
         
-        // Process the turn with the selected choice
-        await processTurn(handler, session, selectedChoice);
+        // Process the turn with the selected choice; the form is dropped once the next scene replaces it.
+        // The event only counts as handled once its turn has been played, so a failed turn can be retried.
+        interactionsInProgress.add(eventId);
+        try {
+            if (await processTurn(handler, session, selectedChoice)) {
+                handledInteractions.set(eventId, Date.now());
+            }
+        } finally {
+            interactionsInProgress.delete(eventId);
+        }
     } catch (error) {
         console.error('Error in onInteractionResponse handler:', error);
         try {
@@ -430,46 +1140,103 @@ bot.onInteractionResponse(async (handler, event) => {
 })
 
 // Start command - start the game directly
-bot.onSlashCommand('start', async (handler, { channelId, userId }) => {
+bot.onSlashCommand('start', async (handler, { spaceId, channelId, userId, args }) => {
     const existingSession = getSession(userId);
     if (existingSession && existingSession.isActive) {
         await handler.sendMessage(
             channelId,
-            `You already have an active game! Use \`/status\` to check your progress.\n\n` +
+            `You already have an active game! Use \`/status\` to check your progress, or \`/abandon\` to end it.\n\n` +
             formatStatus(existingSession)
         );
         return;
     }
     
+    // Optional scenario pack or story id, game length and difficulty in any order,
+    // e.g. `/start room-1016`, `/start short` or `/start room-616 marathon condemned`
+    let selection: string | undefined;
+    let length: typeof DEFAULT_GAME_LENGTH | undefined;
+    let difficulty: Difficulty | undefined;
+    for (const arg of args.map(value => value.trim().toLowerCase()).filter(Boolean)) {
+        if (parseGameLength(arg) && !length) {
+            length = parseGameLength(arg);
+        } else if (parseDifficulty(arg) && !difficulty) {
+            difficulty = parseDifficulty(arg);
+        } else {
+            selection ??= arg;
+        }
+    }
+    const story = selection ? getStory(selection) : undefined;
+    if (selection && !story && !getScenario(selection)) {
+        await handler.sendMessage(
+            channelId,
+            `❌ Unknown scenario or story \`${selection}\`. Use \`/scenarios\` to see what's available.`
+        );
+        return;
+    }
+    // Stories are written for their pack's own turn count
+    if (story && length && length !== 'standard') {
+        await handler.sendMessage(channelId, `❌ Stories are only played at standard length.`);
+        return;
+    }
+    const pack = resolveScenario(story ? story.scenario : selection);
+    // An admin can fix the difficulty for everyone in the round
+    const scopeId = getScopeId(spaceId, channelId);
+    const roundDifficulty = getOpenRound(scopeId)?.difficulty;
+    if (roundDifficulty && difficulty && difficulty !== roundDifficulty) {
+        await handler.sendMessage(channelId, `⚠️ This round is played on **${DIFFICULTIES[roundDifficulty].label}**, so your difficulty choice is ignored.`);
+    }
+    
     // Create new session without tip (tipAmount = 0)
     // Use userId as both userId and smartAccountAddress since we don't have tip info
-    const session = createSession(userId, userId, channelId, 0n);
+    const session = createSession(
+        userId,
+        userId,
+        channelId,
+        scopeId,
+        0n,
+        undefined,
+        pack,
+        story ? 'standard' : length ?? DEFAULT_GAME_LENGTH,
+        roundDifficulty ?? difficulty ?? DEFAULT_DIFFICULTY
+    );
+    const scenario = getSessionScenario(session);
+    if (story) {
+        updateSession(userId, { story: { storyId: story.id, nodeId: null } });
+    }
+    startRunLog(session);
     
     // Send immediate confirmation
     await handler.sendMessage(
         channelId,
-        `✅ Starting your game...`
+        `✅ Starting your game: **${story ? story.name : scenario.name}** — ${formatGameLength(pack, session.length)}, ${formatDifficulty(session.difficulty)}...`
     );
     
-    // Generate first scene
+    // Generate first scene, holding the turn lock so early clicks and commands wait for it
+    beginTurn(session.sessionId);
     try {
         console.log('Generating first scene for user:', userId);
-        const scene = await generateScene(1, session.state, []);
-        session.state = applyStateChanges(session.state, scene.state_changes);
-        session.actionHistory.push('game_start');
+        let next;
+        try {
+            next = await generateNextScene(session, scenario, null);
+        } catch (error) {
+            console.error('First scene generation failed, sending static filler scene:', error);
+            await sendStaticFiller(handler, session, STATIC_FILLER_CHOICES);
+            return;
+        }
+        const { scene } = next;
+        session.state = applySceneState(session, next.state, scene, scenario, next.nodeId);
+        if (session.story) {
+            session.story.nodeId = next.nodeId;
+        }
+        recordScene(session.memory, next.state.turn, undefined, scene);
+        session.actionHistory.push({ text: 'game_start', kind: 'start' });
         lastChoices.set(userId, scene.choices);
         
             // Generate image for the first scene (optional, won't break game if it fails)
-            let imageUrl: string | undefined = undefined;
-            try {
-                imageUrl = await generateSceneImage(scene.scene_text, 1, []) || undefined;
-            } catch (error) {
-                console.error('Error generating scene image:', error);
-                // Continue without image
-            }
+            const imageUrl = await generateSceneImageWithinBudget(session, scenario, scene.scene_text, 1);
             
             // Send first scene with buttons (include updated state after scene generation)
-            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl);
+            await sendSceneWithButtons(handler, channelId, scene.scene_text, scene.choices, scene.hint, userId, session.state, imageUrl, scenario);
         
         updateSession(userId, { state: session.state, actionHistory: session.actionHistory });
         console.log('Game started successfully for user:', userId);
@@ -480,6 +1247,8 @@ bot.onSlashCommand('start', async (handler, { channelId, userId }) => {
             `❌ Error starting game: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`
         );
         clearSession(userId);
+    } finally {
+        endTurn(session.sessionId);
     }
 })
 
@@ -548,6 +1317,202 @@ bot.onSlashCommand('choose4', async (handler, { channelId, userId }) => {
     await processTurn(handler, session, choices[3]);
 })
 
+// Free-text action command
+bot.onSlashCommand('act', async (handler, { channelId, userId, args }) => {
+    const session = getSession(userId);
+    if (!session || !session.isActive) {
+        await handler.sendMessage(channelId, `You don't have an active game. Use \`/start\` to begin.`);
+        return;
+    }
+    
+    if (!(getRound(session.roundId)?.allowFreeText ?? FREE_TEXT_DEFAULT)) {
+        await handler.sendMessage(channelId, `✋ Free-text actions are disabled this round. Use \`/choose1\`, \`/choose2\`, etc.`);
+        return;
+    }
+    
+    // Authored scenes only follow their listed edges
+    if (session.story?.nodeId) {
+        await handler.sendMessage(channelId, `📖 This scene is scripted — pick one of the listed choices with \`/choose1\`, \`/choose2\`, etc.`);
+        return;
+    }
+    
+    if (!lastChoices.has(userId)) {
+        await handler.sendMessage(channelId, `No scene to act in yet. Please wait for the next scene.`);
+        return;
+    }
+    
+    const scenario = getSessionScenario(session);
+    let text: string;
+    try {
+        text = screenFreeTextAction(args.join(' '), scenario);
+    } catch (error) {
+        if (!(error instanceof FreeTextActionError)) throw error;
+        console.log('Rejected free-text action:', { userId, reason: error.reason });
+        await handler.sendMessage(
+            channelId,
+            `❌ Can't use that action: ${error.reason}.\nUsage: \`/act <what you do>\` (up to ${FREE_TEXT_MAX_LENGTH} characters), e.g. \`/act pry the TV off the wall\``
+        );
+        return;
+    }
+    
+    const moderation = await narrative.moderateAction(text);
+    if (moderation.flagged) {
+        console.log('Free-text action flagged by moderation:', { userId, categories: moderation.categories });
+        await handler.sendMessage(channelId, `❌ That action was flagged by moderation. Try something else.`);
+        return;
+    }
+    
+    await processTurn(handler, session, text, 'free_text');
+})
+
+// Free-text switch for the current round (admins only)
+bot.onSlashCommand('freetext', async (handler, { spaceId, channelId, userId, args }) => {
+    const round = getOpenRound(getScopeId(spaceId, channelId));
+    const setting = args[0]?.trim().toLowerCase();
+    if (!setting) {
+        const message = round
+            ? `✍️ Free-text actions are **${round.allowFreeText ? 'on' : 'off'}** for this round.`
+            : `✍️ No round is open here. The next one starts with free-text actions **${FREE_TEXT_DEFAULT ? 'on' : 'off'}**.`;
+        await handler.sendMessage(channelId, message);
+        return;
+    }
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can change the free-text setting.`);
+        return;
+    }
+    if (setting !== 'on' && setting !== 'off') {
+        await handler.sendMessage(channelId, `Usage: \`/freetext on\` or \`/freetext off\``);
+        return;
+    }
+    if (!round) {
+        await handler.sendMessage(channelId, `❌ No round is open here. The next \`/start\` opens one.`);
+        return;
+    }
+    round.allowFreeText = setting === 'on';
+    saveRound(round);
+    await handler.sendMessage(channelId, `✍️ Free-text actions are now **${setting}** for round \`${round.roundId}\`.`);
+})
+
+// Difficulty for the current round: anyone can see it, admins can fix it or leave it to players
+bot.onSlashCommand('difficulty', async (handler, { spaceId, channelId, userId, args }) => {
+    const round = getOpenRound(getScopeId(spaceId, channelId));
+    const setting = args[0]?.trim().toLowerCase();
+    if (!setting) {
+        const levels = Object.entries(DIFFICULTIES)
+            .map(([name, definition]) => `• \`${name}\` — **${formatDifficulty(name as Difficulty)}**: ${definition.description}`)
+            .join('\n');
+        const current = round?.difficulty
+            ? `This round is fixed to **${DIFFICULTIES[round.difficulty].label}**.`
+            : `Players choose with \`/start [difficulty]\` (default **${DIFFICULTIES[DEFAULT_DIFFICULTY].label}**).`;
+        await handler.sendMessage(channelId, `🎚️ **Difficulty**\n\n${levels}\n\n${current}`);
+        return;
+    }
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can fix the difficulty for a round.`);
+        return;
+    }
+    if (setting !== 'any' && !parseDifficulty(setting)) {
+        await handler.sendMessage(channelId, `Usage: \`/difficulty ${Object.keys(DIFFICULTIES).join('|')}|any\``);
+        return;
+    }
+    if (!round) {
+        await handler.sendMessage(channelId, `❌ No round is open here. The next \`/start\` opens one.`);
+        return;
+    }
+    round.difficulty = parseDifficulty(setting);
+    saveRound(round);
+    await handler.sendMessage(
+        channelId,
+        round.difficulty
+            ? `🎚️ New games in round \`${round.roundId}\` are now played on **${DIFFICULTIES[round.difficulty].label}**.`
+            : `🎚️ Players choose their own difficulty again in round \`${round.roundId}\`.`
+    );
+})
+
+// Scoring version for the current season: anyone can see the weights, admins can switch version
+bot.onSlashCommand('scoring', async (handler, { spaceId, channelId, userId, args }) => {
+    const season = getCurrentSeason(getScopeId(spaceId, channelId));
+    const current = getScoreVersion(season.id);
+    const version = args[0]?.trim();
+    if (!version) {
+        const weights = getScoreWeights(current)!;
+        const lines = Object.entries(weights).map(([component, weight]) => `• \`${component}\`: ${weight}`).join('\n');
+        const others = listScoreVersions().filter(name => name !== current).map(name => `\`${name}\``).join(', ');
+        await handler.sendMessage(
+            channelId,
+            `🧮 **Scoring ${current}** (season \`${season.name}\`)\n\n${lines}\n\nOther versions: ${others || 'none'}. Earlier scores keep the version they were recorded with.`
+        );
+        return;
+    }
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can change the scoring version.`);
+        return;
+    }
+    if (!getScoreWeights(version)) {
+        await handler.sendMessage(channelId, `Usage: \`/scoring ${listScoreVersions().join('|')}\``);
+        return;
+    }
+    setScoreVersion(season.id, version);
+    await handler.sendMessage(
+        channelId,
+        `🧮 Runs finishing in season \`${season.name}\` are now scored with **${version}**. The leaderboard ranks earlier runs by rescoring them under ${version}.`
+    );
+})
+
+// Season command: anyone can see the current and past seasons, admins can end the current one
+bot.onSlashCommand('season', async (handler, { spaceId, channelId, userId, args }) => {
+    const scopeId = getScopeId(spaceId, channelId);
+    if (args[0]?.trim().toLowerCase() === 'end') {
+        if (!isAdmin(userId)) {
+            await handler.sendMessage(channelId, `❌ Only admins can end the season.`);
+            return;
+        }
+        const name = args[1]?.trim().toLowerCase();
+        const problem = name ? checkSeasonName(scopeId, name) : null;
+        if (problem) {
+            await handler.sendMessage(channelId, `❌ Cannot start season \`${name}\`: ${problem}.`);
+            return;
+        }
+        await handler.sendMessage(channelId, await endSeason(scopeId, name, channelId));
+        return;
+    }
+    if (args[0]) {
+        await handler.sendMessage(channelId, `Usage: \`/season\` or \`/season end [next-season-name]\` (admins only)`);
+        return;
+    }
+
+    const season = getCurrentSeason(scopeId);
+    const finished = Object.keys(GAME_LENGTHS).reduce((total, length) => total + getSeasonScores(season.id, length as GameLength).length, 0);
+    let message = `📅 **Season \`${season.name}\`**\n\n`;
+    message += `**Dates:** ${formatSeasonDates(season)}\n`;
+    message += `**Scoring:** ${getScoreVersion(season.id)}\n`;
+    message += `**Runs finished:** ${finished}\n`;
+    const past = listSeasons(scopeId).filter(candidate => candidate.endedAt).reverse();
+    if (past.length > 0) {
+        message += `\n**Past seasons:**\n`;
+        for (const previous of past.slice(0, 5)) {
+            const archive = previous.archivedAt ? 'archived' : 'final standings pending';
+            message += `• \`${previous.name}\` (${formatSeasonDates(previous)}, ${archive})\n`;
+        }
+        message += `\nUse \`/leaderboard season:<name>\` to see a season's standings.`;
+    }
+    await handler.sendMessage(channelId, message);
+})
+
+// Abandon command - end your run now; it is scored as forfeited
+bot.onSlashCommand('abandon', async (handler, { channelId, userId }) => {
+    const session = getSession(userId);
+    if (!session || !session.isActive) {
+        await handler.sendMessage(channelId, `You don't have an active game. Use \`/start\` to begin.`);
+        return;
+    }
+    if (isTurnInProgress(session.sessionId)) {
+        await handler.sendMessage(channelId, `⏳ Still thinking about your last move… try \`/abandon\` again once the scene arrives.`);
+        return;
+    }
+    await handler.sendMessage(channelId, forfeitRun(session, 'abandoned'));
+})
+
 // Status command
 bot.onSlashCommand('status', async (handler, { channelId, userId }) => {
     const session = getSession(userId);
@@ -560,26 +1525,227 @@ bot.onSlashCommand('status', async (handler, { channelId, userId }) => {
 })
 
 // Leaderboard command
-bot.onSlashCommand('leaderboard', async (handler, { channelId }) => {
-    const leaderboard = getLeaderboard(10);
+bot.onSlashCommand('leaderboard', async (handler, { spaceId, channelId, args }) => {
+    // Each game length has its own leaderboard, e.g. `/leaderboard marathon`; past seasons with
+    // `season:<name>`, and every channel or space's current season together with `all`
+    const scopeId = getScopeId(spaceId, channelId);
+    const seasonArg = args.find(arg => arg.toLowerCase().startsWith('season:'));
+    const allArg = args.find(arg => arg.toLowerCase() === 'all');
+    const lengthArg = args.find(arg => arg !== seasonArg && arg !== allArg);
+    const length = lengthArg ? parseGameLength(lengthArg) : DEFAULT_GAME_LENGTH;
+    if (!length) {
+        await handler.sendMessage(channelId, `❌ Unknown game length \`${lengthArg}\`. Use ${Object.keys(GAME_LENGTHS).map(name => `\`${name}\``).join(', ')}.`);
+        return;
+    }
+    if (allArg) {
+        if (!GLOBAL_LEADERBOARD) {
+            await handler.sendMessage(channelId, `❌ The all-spaces leaderboard is not enabled on this bot.`);
+            return;
+        }
+        const leaderboard = getGlobalLeaderboard(length);
+        const title = `🌐 **Leaderboard — ${GAME_LENGTHS[length].label}, all spaces**`;
+        await handler.sendMessage(
+            channelId,
+            leaderboard.length === 0
+                ? `${title}\n\nNo players have completed a ${length} game this season anywhere yet.`
+                : `${title} (Top 10 of every current season)\n\n${formatLeaderboardEntries(leaderboard)}` +
+                    `_Runs are ranked by their score under their own season's scoring; prize pools stay with each channel or space._`
+        );
+        return;
+    }
+    const season = seasonArg ? findSeason(scopeId, seasonArg.slice('season:'.length)) : getCurrentSeason(scopeId);
+    if (!season) {
+        await handler.sendMessage(channelId, `❌ Unknown season \`${seasonArg!.slice('season:'.length)}\`. Use \`/season\` to list seasons.`);
+        return;
+    }
+    const isCurrent = season.id === getCurrentSeasonId(scopeId);
+    const title = `📊 **Leaderboard — ${GAME_LENGTHS[length].label}, season \`${season.name}\`**`;
+
+    // Archived seasons show their final standings, which never change
+    if (season.archivedAt) {
+        const standings = season.standings?.[length] ?? [];
+        if (standings.length === 0) {
+            await handler.sendMessage(channelId, `${title}\n\nNo players completed a ${length} game that season.`);
+            return;
+        }
+        let message = `${title} (Final standings, scoring ${season.scoreVersion})\n\n`;
+        for (const standing of standings.slice(0, 10)) {
+            const medal = standing.rank === 1 ? '🥇' : standing.rank === 2 ? '🥈' : standing.rank === 3 ? '🥉' : `${standing.rank}.`;
+            message += `${medal} <@${standing.wallet}> - Score: ${standing.score} (Tier ${standing.tier}, ${DIFFICULTIES[standing.difficulty].label})\n`;
+            message += `   Ending: ${standing.ending_id}\n\n`;
+        }
+        message += `_Season ran ${formatSeasonDates(season)}; ${standings.length} ${length} players ranked._`;
+        await handler.sendMessage(channelId, message);
+        return;
+    }
+
+    const leaderboard = getLeaderboard(season.id, length);
     
     if (leaderboard.length === 0) {
-        await handler.sendMessage(channelId, `📊 **Leaderboard**\n\nNo players have completed a game yet.`);
+        await handler.sendMessage(channelId, `${title}\n\nNo players have completed a ${length} game ${isCurrent ? 'yet' : 'that season'}.`);
         return;
     }
     
-    let message = `📊 **Leaderboard** (Top 10)\n\n`;
-    leaderboard.forEach((entry, index) => {
-        const medal = index === 0 ? '🥇' : index === 1 ? '🥈' : index === 2 ? '🥉' : `${index + 1}.`;
-        message += `${medal} <@${entry.wallet}> - Score: ${entry.score} (${entry.tier} Tier)\n`;
-        message += `   Ending: ${entry.ending_id}\n\n`;
-    });
+    let message = `${title} (Top 10, scoring ${getScoreVersion(season.id)})\n\n`;
+    message += formatLeaderboardEntries(leaderboard);
+    
+    const finished = getSeasonScores(season.id, length).length;
+    message += finished < MIN_TIER_SAMPLE
+        ? `_Tiers use fixed score thresholds until ${MIN_TIER_SAMPLE} ${length} runs finish this season (${finished} so far)._\n\n`
+        : `_Tiers by season percentile: ${TIER_PERCENTILES.map(([tier, top]) => `${tier} top ${top}%`).join(', ')}, D the rest._\n\n`;
+    if (!isCurrent) {
+        message += `_This season has ended; its standings are final once its last round settles._`;
+        await handler.sendMessage(channelId, message);
+        return;
+    }
+    
+    const round = getLatestRound(scopeId);
+    if (round) {
+        message += `**Current Round:** \`${round.roundId}\`, ${formatRoundStatus(round)}\n`;
+        message += `**Prize Pool:** ${round.prizePool.toString()} wei\n`;
+        message += `**Active Players:** ${round.activePlayers.size}\n`;
+        message += `**Completed:** ${round.completedPlayers.size}`;
+    }
+    
+    await handler.sendMessage(channelId, message);
+})
+
+// Endings command - show a player's ending collection for a scenario
+bot.onSlashCommand('endings', async (handler, { channelId, userId, args }) => {
+    const scenarioId = args[0]?.trim().toLowerCase();
+    if (scenarioId && !getScenario(scenarioId)) {
+        await handler.sendMessage(channelId, `❌ Unknown scenario \`${scenarioId}\`. Use \`/scenarios\` to see what's available.`);
+        return;
+    }
+    const scenario = resolveScenario(scenarioId);
+    const discovered = getDiscoveredEndings(userId);
+    
+    let message = `🎭 **Endings — ${scenario.name}** (${formatEndingProgress(userId, scenario)})\n\n`;
+    for (const ending of scenario.endings) {
+        if (discovered.has(ending.id)) {
+            message += `✅ **${ending.title}** \`${ending.id}\`\n`;
+        } else {
+            message += `🔒 ???\n`;
+        }
+    }
+    await handler.sendMessage(channelId, message);
+})
+
+// Achievements command - show a player's unlocked and remaining achievements
+bot.onSlashCommand('achievements', async (handler, { channelId, userId }) => {
+    const unlocked = getUnlockedAchievements(userId);
+    // Seasonal achievements that cannot be unlocked right now only show once earned
+    const shown = listAchievements().filter(achievement => unlocked.has(achievement.id) || isAchievementAvailable(achievement));
+    if (shown.length === 0) {
+        await handler.sendMessage(channelId, `🏅 No achievements are available yet.`);
+        return;
+    }
     
-    const round = getCurrentRound();
-    message += `**Current Round Prize Pool:** ${round.prizePool.toString()} wei\n`;
-    message += `**Active Players:** ${round.activePlayers.size}\n`;
-    message += `**Completed:** ${round.completedPlayers.size}`;
+    const earned = shown.filter(achievement => unlocked.has(achievement.id)).length;
+    let message = `🏅 **Achievements** (${earned}/${shown.length})\n\n`;
+    for (const achievement of shown) {
+        const unlockedAt = unlocked.get(achievement.id);
+        if (unlockedAt) {
+            message += `✅ ${achievement.emoji} **${achievement.name}** — ${achievement.description} *(${unlockedAt.toISOString().slice(0, 10)})*\n`;
+        } else {
+            message += `🔒 **${achievement.name}** — ${achievement.description}\n`;
+        }
+    }
+    await handler.sendMessage(channelId, message);
+})
+
+// Usage command - API usage and estimated cost (admins only)
+bot.onSlashCommand('usage', async (handler, { spaceId, channelId, userId }) => {
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can view usage.`);
+        return;
+    }
     
+    const round = getLatestRound(getScopeId(spaceId, channelId));
+    const daily = getDailyUsage();
+    let message = `💸 **API Usage**\n\n`;
+    message += `**Today (UTC):** ${formatUsage(daily)}`;
+    message += DAILY_BUDGET_USD > 0 ? ` of $${DAILY_BUDGET_USD.toFixed(2)} budget\n` : `\n`;
+    if (round) message += `**Round \`${round.roundId}\`:** ${formatUsage(getRoundUsage(round.roundId))}\n`;
+    message += `**Session budget:** ${SESSION_BUDGET_USD > 0 ? `$${SESSION_BUDGET_USD.toFixed(2)}` : 'unlimited'}\n\n`;
+    
+    const sessions = [...(round?.activePlayers ?? [])]
+        .map(playerId => getSession(playerId))
+        .filter((session): session is NonNullable<typeof session> => !!session?.isActive);
+    if (sessions.length > 0) {
+        message += `**Active sessions:**\n`;
+        for (const session of sessions) {
+            const usage = usageContext(session);
+            message += `• <@${session.userId}> — ${formatUsage(getSessionUsage(usage.sessionId))} ` +
+                `(tip ${session.tipAmount.toString()} wei, ${getBudgetMode(usage)})\n`;
+        }
+    }
+    await handler.sendMessage(channelId, message);
+})
+
+// Run log command - dump and verify a player's run (admins only)
+bot.onSlashCommand('runlog', async (handler, { channelId, userId, args }) => {
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can view run logs.`);
+        return;
+    }
+    
+    // A session id, or a user (mention or address) for their latest run
+    const target = args[0]?.trim().replace(/^<?@?/, '').replace(/>$/, '');
+    if (!target) {
+        await handler.sendMessage(channelId, `Usage: \`/runlog <session id or user>\``);
+        return;
+    }
+    const sessionId = SESSION_ID_PATTERN.test(target) ? target : getLatestRunId(target) ?? getLatestRunId(target.toLowerCase());
+    const events = sessionId ? getRunLog(sessionId) : [];
+    if (events.length === 0) {
+        await handler.sendMessage(channelId, `❌ No run log found for \`${target}\`.`);
+        return;
+    }
+    await handler.sendMessage(channelId, formatRunLog(events));
+})
+
+// Images command - scene images for this channel (admins can switch them)
+bot.onSlashCommand('images', async (handler, { channelId, userId, args }) => {
+    const setting = args[0]?.trim().toLowerCase();
+    if (!setting) {
+        await handler.sendMessage(channelId, `🖼️ Scene images are **${areChannelImagesEnabled(channelId) ? 'on' : 'off'}** in this channel.`);
+        return;
+    }
+    if (!isAdmin(userId)) {
+        await handler.sendMessage(channelId, `❌ Only admins can change the image setting.`);
+        return;
+    }
+    if (setting !== 'on' && setting !== 'off') {
+        await handler.sendMessage(channelId, `Usage: \`/images on\` or \`/images off\``);
+        return;
+    }
+    setChannelImagesEnabled(channelId, setting === 'on');
+    await handler.sendMessage(channelId, `🖼️ Scene images are now **${setting}** in this channel.`);
+})
+
+// Scenarios command
+bot.onSlashCommand('scenarios', async (handler, { channelId }) => {
+    const defaultId = resolveScenario().id;
+    let message = `🎬 **Scenarios**\n\n`;
+    for (const pack of listScenarios()) {
+        message += `• \`${pack.id}\` — **${pack.name}** (${pack.turns} turns)${pack.id === defaultId ? ' *(default)*' : ''}\n`;
+        message += `   ${pack.description}\n`;
+    }
+    const stories = listStories();
+    if (stories.length > 0) {
+        message += `\n📖 **Stories**\n\n`;
+        for (const story of stories) {
+            message += `• \`${story.id}\` — **${story.name}** (${story.mode}, ${resolveScenario(story.scenario).name})\n`;
+            message += `   ${story.description}\n`;
+        }
+    }
+    const lengths = Object.entries(GAME_LENGTHS).map(
+        ([name, definition]) => `\`${name}\` (${definition.turns ? `${definition.turns} turns` : 'the scenario\'s own length'})`
+    );
+    message += `\n⏱️ **Lengths:** ${lengths.join(', ')}\n`;
+    message += `🎚️ **Difficulties:** ${Object.keys(DIFFICULTIES).map(name => `\`${name}\``).join(', ')}\n`;
+    message += `\nUse \`/start <scenario or story> [length] [difficulty]\` to play one.`;
     await handler.sendMessage(channelId, message);
 })
 
@@ -589,28 +1755,156 @@ bot.onSlashCommand('help', async (handler, { channelId }) => {
         channelId,
         '**🎮 Room 616 - Commands**\n\n' +
         '**Game Commands:**\n' +
-        '• `/start` - Start a new game\n' +
-        '• `/status` - Check your current game status\n' +
-        '• `/leaderboard` - View the current leaderboard\n\n' +
+        '• `/start [scenario or story] [short|standard|marathon] [guest|resident|condemned]` - Start a new game\n' +
+        '• `/scenarios` - List available scenarios and stories\n' +
+        '• `/status` - Check your current game status and projected score\n' +
+        '• `/leaderboard [length] [season:<name>|all]` - View the leaderboard for a game length and season (or every space)\n' +
+        '• `/season` - Show the current and past seasons (admins can `/season end [next-name]`)\n' +
+        '• `/endings [scenario]` - View your ending collection\n' +
+        '• `/achievements` - View your achievements\n' +
+        '• `/difficulty [level|any]` - Show the difficulty levels (admins can fix one for the round)\n' +
+        '• `/scoring [version]` - Show the season\'s scoring weights (admins can switch version)\n' +
+        '• `/freetext [on|off]` - Show whether free-text actions are allowed this round (admins can switch it)\n' +
+        '• `/usage` - View API usage and estimated cost (admins only)\n' +
+        '• `/runlog <session or user>` - Dump and verify a run log (admins only)\n' +
+        '• `/images [on|off]` - Show whether this channel gets scene images (admins can switch it)\n\n' +
         '**Choice Commands:**\n' +
         '• `/choose1` - Choose option 1\n' +
         '• `/choose2` - Choose option 2\n' +
         '• `/choose3` - Choose option 3\n' +
-        '• `/choose4` - Choose option 4\n\n' +
+        '• `/choose4` - Choose option 4\n' +
+        '• `/act <text>` - Type your own action (when enabled for the round)\n' +
+        '• `/abandon` - End your current game now (scored as a forfeit)\n\n' +
         '**How to Play:**\n' +
         '1. Use `/start` to begin a game\n' +
         '2. Make choices using `/choose1`, `/choose2`, etc.\n' +
-        '3. Navigate through 10 decisions\n' +
+        '3. Navigate through the scenario\'s decisions (6, 10 or 20 in Room 616, depending on the length)\n' +
         '4. Reach an ending and get your score\n' +
-        '5. Highest score wins the prize pool!\n\n' +
+        '5. Highest score wins the prize pool when the round settles!\n\n' +
         '💡 **Tip:** You can tip the bot to add to the prize pool! Tips are optional but help fund the competition.\n'
     )
 })
 
 const { jwtMiddleware, handler } = bot.start()
 
+/**
+ * Remind players whose runs are waiting on them, and forfeit runs idle for too long. Messages
+ * go to the channel each run is played in.
+ */
+async function runIdleScheduler(): Promise<void> {
+    for (const { kind, session } of checkIdleSessions()) {
+        const deadline = IDLE_FORFEIT_MS > 0
+            ? ` Choose within ${Math.round((IDLE_FORFEIT_MS - IDLE_REMINDER_MS) / 60_000)} minutes or your number will be called.`
+            : '';
+        let message = `⏰ <@${session.userId}>, your game is waiting for your next move.${deadline} Use \`/abandon\` to end it now.`;
+        if (kind === 'forfeit') {
+            // Decided now, not when the list was built: the player may have moved while earlier notices were sent.
+            // The turn lock keeps a click from starting a turn on the run while it is forfeited.
+            if (!isIdleForfeitDue(session) || !beginTurn(session.sessionId)) continue;
+            try {
+                message = forfeitRun(session, 'idle');
+            } catch (error) {
+                console.error('Could not forfeit idle run:', { sessionId: session.sessionId, error });
+                continue;
+            } finally {
+                endTurn(session.sessionId);
+            }
+        }
+        try {
+            await bot.sendMessage(session.channelId, message);
+        } catch (error) {
+            console.error('Could not post idle notice:', { channelId: session.channelId, kind, error });
+        }
+    }
+}
+
+/**
+ * Roll the season over when it is due, move rounds along their lifecycle and post the
+ * announcements due to each round's channels. A settled round's winning run is checked again
+ * for achievements that need a win. Ended seasons are archived once their last round settles.
+ */
+async function runRoundScheduler(): Promise<void> {
+    for (const scopeId of getScopesDueForRollover()) {
+        try {
+            await endSeason(scopeId);
+        } catch (error) {
+            console.error('Could not end season:', { scopeId, error });
+        }
+    }
+    for (const announcement of advanceRounds()) {
+        let message = formatRoundAnnouncement(announcement);
+        if (announcement.kind === 'settled') {
+            // TODO: Send the prize pool to the winner using bot.viem and execute
+            const { roundId, winnerId } = announcement.round;
+            try {
+                const entry = getRoundEntries(roundId).find(candidate => candidate.wallet === winnerId);
+                const finishedRun = entry && getFinishedRun(getRunLog(entry.session_id), true);
+                for (const achievement of finishedRun ? recordAchievements(finishedRun) : []) {
+                    message += `\n🏅 <@${winnerId}> unlocked ${achievement.emoji} **${achievement.name}** — ${achievement.description}`;
+                }
+            } catch (error) {
+                // The settlement is still announced; only the winner's achievements are missed
+                console.error('Could not check winner achievements:', { roundId, error });
+            }
+        }
+        for (const channelId of announcement.round.channelIds) {
+            try {
+                await bot.sendMessage(channelId, message);
+            } catch (error) {
+                console.error('Could not post round announcement:', { channelId, kind: announcement.kind, error });
+            }
+        }
+    }
+    for (const season of getSeasonsAwaitingArchive()) {
+        if (hasUnsettledRounds(season.id)) continue;
+        try {
+            archiveSeason(season.id, getSeasonStandings(season.id));
+            console.log(`Archived final standings of season ${season.name}`);
+        } catch (error) {
+            console.error('Could not archive season:', { seasonId: season.id, error });
+        }
+    }
+}
+
+let schedulerRunning = false
+
+/**
+ * Run the idle check before the rounds, so forfeited runs count before their round settles.
+ * A run still sending messages when the next one is due is left to finish; the next is skipped.
+ * Errors are logged and the work is retried on the next run, so they never reach the timer.
+ */
+async function runScheduler(): Promise<void> {
+    if (schedulerRunning) return;
+    schedulerRunning = true;
+    try {
+        await runIdleScheduler();
+        await runRoundScheduler();
+        pruneHandledInteractions();
+    } catch (error) {
+        console.error('Scheduler run failed:', error);
+    } finally {
+        schedulerRunning = false;
+    }
+}
+
+// Idle runs, rounds and seasons end on a timer, so check them every minute (and once now, for any that came due while the bot was down)
+const ROUND_CHECK_INTERVAL_MS = 60_000
+void runScheduler()
+setInterval(() => void runScheduler(), ROUND_CHECK_INTERVAL_MS)
+
 const app = new Hono()
 app.use(logger())
 app.post('/webhook', jwtMiddleware, handler)
+app.get('/images/:key', async (c) => {
+    const image = await sceneImages.getStoredImage(c.req.param('key'))
+    if (!image) {
+        return c.notFound()
+    }
+    // Keys are content hashes, so a stored image never changes
+    return c.body(new Uint8Array(image.data), 200, {
+        'Content-Type': image.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+    })
+})
 
 export default app